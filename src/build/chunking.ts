@@ -0,0 +1,208 @@
+/**
+ * Route-aware chunking (`chunking` option)
+ *
+ * Feeds Rollup's `manualChunks` so the lazily loaded route files (page,
+ * layout, template, error, not-found, default) of one segment — or of one
+ * `(group)` — share a chunk instead of each becoming its own request. Chunk
+ * names are derived from the segment path through `pathToIdentifier`
+ * (`route-BlogId`, `group-Admin`) so they stay readable in bundle analysis.
+ */
+
+import type { Rollup } from "vite";
+import { pathToIdentifier, type RouteChunking } from "../commons/index.js";
+import { createHash } from "crypto";
+import * as path from "path";
+
+/** Convention files the generated routes module imports lazily. */
+const LAZY_ROUTE_FILES = new Set(["page", "layout", "template", "error", "not-found", "default"]);
+
+/** `(group)` folders — not intercept markers like `(..)` or `(+name)` invocations. */
+const GROUP_SEGMENT_RE = /^\((?![.+])[^)]+\)$/;
+
+/**
+ * Chunk for dependencies that route chunks share with the entry; the ones
+ * only route chunks share are split by the set of route chunks using them
+ * (`app-shared~route-Blog~route-Docs`). Rolldown fills manual chunks in name
+ * order, each pulling in its not-yet-claimed dependencies, so the names sort
+ * before `group-*`/`route-*`.
+ */
+const SHARED_CHUNK_NAME = "app-shared";
+
+/** Longest readable shared chunk name; longer ones use a hash of the set. */
+const MAX_SHARED_CHUNK_NAME_LENGTH = 64;
+
+/** Owner standing for the entry chunks. */
+const ENTRY_OWNER = "\0entry";
+
+type ManualChunksFunction = Extract<NonNullable<Rollup.OutputOptions["manualChunks"]>, (...args: never[]) => unknown>;
+
+/**
+ * `blog/[id]` → `BlogId`, `(admin)/users` → `AdminUsers`, `` → `Root`.
+ */
+function toChunkIdentifier(segments: string[]): string {
+    // pathToIdentifier only strips URL-pattern characters; folder names also
+    // carry `(`, `)`, `@`, `+`, `.` and the like.
+    const words = segments
+        .map((segment) => segment.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_|_$/g, ""))
+        .filter(Boolean);
+    return pathToIdentifier("/" + words.join("/"));
+}
+
+/**
+ * Chunk name for a file, or undefined to leave it to the bundler. `file` is
+ * an absolute module path; only route files inside `appDir` are grouped.
+ */
+export function getRouteChunkName(
+    file: string,
+    appDir: string,
+    chunking: RouteChunking
+): string | undefined {
+    const relative = path.relative(appDir, file);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return undefined;
+    const posix = relative.replace(/\\/g, "/");
+    const baseName = path.posix.basename(posix, path.posix.extname(posix));
+    if (!LAZY_ROUTE_FILES.has(baseName)) return undefined;
+
+    if (typeof chunking === "function") {
+        return chunking(posix) || undefined;
+    }
+    const segments = path.posix.dirname(posix).split("/").filter((segment) => segment && segment !== ".");
+    switch (chunking) {
+        case "per-segment":
+            return `route-${toChunkIdentifier(segments)}`;
+        case "per-group": {
+            const groupIndex = segments.findIndex((segment) => GROUP_SEGMENT_RE.test(segment));
+            return groupIndex === -1 ? undefined : `group-${toChunkIdentifier(segments.slice(0, groupIndex + 1))}`;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/** The module graph, as the plugin context exposes it once the build is parsed. */
+export interface ModuleGraph {
+    getModuleIds(): IterableIterator<string>;
+    getModuleInfo(id: string): {
+        isEntry: boolean;
+        importedIds: readonly string[];
+        dynamicImporters: readonly string[];
+    } | null;
+}
+
+/**
+ * Collects, for every module that is not a route file, the chunks that
+ * statically import it: route chunks, the entry, or lazily imported modules
+ * (which start chunks of their own). Each of those is walked once, up to the
+ * next route file.
+ */
+function collectModuleOwners(
+    graph: ModuleGraph,
+    routeChunkOf: (id: string) => string | undefined
+): Map<string, Set<string>> {
+    const owners = new Map<string, Set<string>>();
+    const addOwner = (id: string, owner: string) => {
+        let set = owners.get(id);
+        if (!set) owners.set(id, (set = new Set()));
+        set.add(owner);
+    };
+    for (const id of graph.getModuleIds()) {
+        const info = graph.getModuleInfo(id);
+        if (!info) continue;
+        const routeChunk = routeChunkOf(id);
+        const owner = routeChunk ?? (info.isEntry ? ENTRY_OWNER : info.dynamicImporters.length > 0 ? id : undefined);
+        if (!owner) continue;
+        if (!routeChunk) addOwner(id, owner);
+
+        const seen = new Set([id]);
+        const stack = [id];
+        while (stack.length > 0) {
+            for (const imported of graph.getModuleInfo(stack.pop()!)?.importedIds ?? []) {
+                if (seen.has(imported) || routeChunkOf(imported)) continue;
+                seen.add(imported);
+                addOwner(imported, owner);
+                stack.push(imported);
+            }
+        }
+    }
+    return owners;
+}
+
+/**
+ * Chunk for a module that is not a route file, from the chunks that import
+ * it. The bundler pulls the static dependencies of a manual chunk into it,
+ * so a dependency of one route chunk only stays there, while one that
+ * several chunks need goes to a shared chunk instead of making them import
+ * each other: `app-shared` when the entry needs it anyway, otherwise one
+ * per set of chunks, so no route downloads what only other routes use.
+ * Modules no route chunk reaches are left alone.
+ */
+function getDependencyChunkName(owners: Set<string>, routeChunks: Set<string>): string | undefined {
+    const routeOwners = [...owners].filter((owner) => routeChunks.has(owner)).sort();
+    if (routeOwners.length === 0) return undefined;
+    if (owners.size === 1) return routeOwners[0];
+    if (owners.has(ENTRY_OWNER)) return SHARED_CHUNK_NAME;
+    const name = [SHARED_CHUNK_NAME, ...routeOwners].join("~");
+    if (routeOwners.length === owners.size && name.length <= MAX_SHARED_CHUNK_NAME_LENGTH) return name;
+    const hash = createHash("sha256").update([...owners].sort().join("\n")).digest("hex").slice(0, 8);
+    return `${SHARED_CHUNK_NAME}~${hash}`;
+}
+
+export interface RouteManualChunks {
+    manualChunks: ManualChunksFunction;
+    /**
+     * Assigns the dependencies of route files to chunks; called once the
+     * module graph is complete (buildEnd), before the bundle is chunked.
+     */
+    analyze(graph: ModuleGraph): void;
+}
+
+/**
+ * Builds the `manualChunks` function. A `manualChunks` function from the
+ * user's config runs first; route files it leaves alone are grouped by
+ * `chunking`, and their dependencies by the analysis of the module graph.
+ * `getAppDir` is read per call since the config is only resolved after the
+ * hook that installs this.
+ */
+export function createRouteManualChunks(
+    getAppDir: () => string | undefined,
+    chunking: RouteChunking,
+    userManualChunks?: ManualChunksFunction
+): RouteManualChunks {
+    let dependencyChunks = new Map<string, string>();
+    const getRouteChunkOf = () => {
+        const appDir = getAppDir();
+        if (!appDir) return undefined;
+        return (moduleId: string) =>
+            moduleId.startsWith("\0") ? undefined : getRouteChunkName(moduleId.split("?")[0]!, appDir, chunking);
+    };
+
+    return {
+        manualChunks: (id, meta) => {
+            const chosen = userManualChunks?.(id, meta);
+            if (chosen) return chosen;
+            const routeChunkOf = getRouteChunkOf();
+            if (!routeChunkOf || id.startsWith("\0")) return undefined;
+            return routeChunkOf(id) ?? dependencyChunks.get(id);
+        },
+
+        analyze(graph) {
+            dependencyChunks = new Map();
+            const getChunk = getRouteChunkOf();
+            if (!getChunk) return;
+            const cache = new Map<string, string | undefined>();
+            const routeChunkOf = (id: string) => {
+                if (!cache.has(id)) cache.set(id, getChunk(id));
+                return cache.get(id);
+            };
+            const routeChunks = new Set<string>();
+            for (const id of graph.getModuleIds()) {
+                const chunk = routeChunkOf(id);
+                if (chunk) routeChunks.add(chunk);
+            }
+            for (const [id, owners] of collectModuleOwners(graph, routeChunkOf)) {
+                const chunk = getDependencyChunkName(owners, routeChunks);
+                if (chunk) dependencyChunks.set(id, chunk);
+            }
+        },
+    };
+}
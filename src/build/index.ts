@@ -4,35 +4,97 @@
  */
 
 import type { PluginHookHandler } from "../commons/types.js";
-import type { ResolvedConfig } from "vite";
-import { parseAppRouter, generateBuildRoutesCode, generateEmptyRoutesCode, type PluginOptions } from "../commons/index.js";
+import type { MinimalPluginContextWithoutEnvironment, ResolvedConfig, Rollup, ViteBuilder } from "vite";
+import {
+    collectDiagnostics,
+    createRouteManifest,
+    getManifestRouteFiles,
+    matchManifestRoute,
+    parseAppRouter,
+    generateBuildRoutesCode,
+    generateEmptyRoutesCode,
+    resolveBasename,
+    resolveRouteTypesPath,
+    writeRouteTypes,
+    emitRoutesFile,
+    generateRoutesFileReExport,
+    type CodeGeneratorOptions,
+    type Diagnostic,
+    type PluginOptions,
+    type RouteManifest,
+} from "../commons/index.js";
+import {
+    buildPrerenderBundle,
+    collectStaticParamsPages,
+    fillRoutePattern,
+    generatePrerenderEntryCode,
+    getStaticPatterns,
+    isPrerenderBuild,
+    prerenderApp,
+    resolvePrerenderOptions,
+    PRERENDER_MODULE_ID,
+    type PrerenderBundle,
+    type StaticParamsResult,
+} from "./prerender.js";
+import { resolveSitemapOptions, writeSitemap } from "./sitemap.js";
+import { createRouteManualChunks, type RouteManualChunks } from "./chunking.js";
+import {
+    createBuildSummary,
+    formatBuildSummary,
+    resolveBuildSummaryOptions,
+    type BuildSummary,
+} from "./summary.js";
 import * as path from "path";
 import * as fs from "fs";
 
 const VIRTUAL_MODULE_ID = "virtual:app-router";
 const RESOLVED_VIRTUAL_MODULE_ID = "\0" + VIRTUAL_MODULE_ID + ".js";
+const RESOLVED_PRERENDER_MODULE_ID = "\0" + PRERENDER_MODULE_ID + ".js";
 
 interface BuildContext {
     config?: ResolvedConfig;
     options: PluginOptions;
+    parsed?: ReturnType<typeof parseAppRouter>;
     generatedCode?: string;
-}
-
-const ctx: BuildContext = {
-    options: {},
-};
-
-/**
- * Sets plugin options
- */
-export function setOptions(options: PluginOptions): void {
-    ctx.options = options;
+    /** The `emitFile` routes file, when the client virtual module re-exports it. */
+    routesFile?: string;
+    /** Server flavour of the routes module, loaded by the prerender bundle. */
+    ssrCode?: string;
+    /**
+     * Allowed URLs of `dynamicParams = false` pages, by pattern. Set by the
+     * prerender step before the client bundle is built.
+     */
+    staticParams?: Record<string, string[]>;
+    /**
+     * Server bundle built before the client environment, and the params its
+     * `generateStaticParams()` calls returned; rendered once the client
+     * bundle is written.
+     */
+    prerender?: { bundle: PrerenderBundle; generated: StaticParamsResult[] };
+    /** App directory, resolved against the Vite root in configResolved. */
+    appDir?: string;
+    /** Set while buildApp builds the client environment around the prerender steps. */
+    appBuild?: boolean;
+    /**
+     * Route manifest of the client build and the output chunks of each route
+     * (by pattern), recorded in generateBundle for the prerender step.
+     */
+    bundleRoutes?: { manifest: RouteManifest; chunks: Map<string, string[]> };
+    /** Route-aware `manualChunks` installed by the `chunking` option. */
+    routeChunks?: RouteManualChunks;
+    /** Route sizes of the client bundle, printed once it is written. */
+    buildSummary?: BuildSummary;
+    /**
+     * Diagnostics of the last client generation, reported through the build
+     * once it starts.
+     */
+    diagnostics: Diagnostic[];
 }
 
 /**
  * Outputs debug information based on debug option
  */
-function outputDebug(code: string): void {
+function outputDebug(ctx: BuildContext, code: string): void {
     const debug = ctx.options.debug;
     if (!debug) return;
 
@@ -50,15 +112,22 @@ function outputDebug(code: string): void {
 }
 
 /**
- * Generates the routes code for build
+ * Generates the routes code for build. The diagnostics of a client
+ * generation are kept for buildStart; the server flavour reports the same.
  */
-function generateRoutes(): string {
-    if (!ctx.config) {
+function generateRoutes(ctx: BuildContext, ssr = false): string {
+    const { result, diagnostics } = collectDiagnostics(() => generateRoutesCode(ctx, ssr));
+    if (!ssr) ctx.diagnostics = diagnostics;
+    return result;
+}
+
+function generateRoutesCode(ctx: BuildContext, ssr: boolean): string {
+    if (!ctx.config || !ctx.appDir) {
         return generateEmptyRoutesCode();
     }
 
     const rootDir = ctx.config.root;
-    const appDir = ctx.options.appDir || path.join(rootDir, "src/app");
+    const appDir = ctx.appDir;
 
     if (!fs.existsSync(appDir)) {
         console.warn(`[vite-plugin-react-app-router] App directory not found: ${appDir}`);
@@ -68,11 +137,12 @@ function generateRoutes(): string {
     const parsed = parseAppRouter({
         ...ctx.options,
         appDir,
-    });
+    }, undefined, rootDir);
+    ctx.parsed = parsed;
 
     // Use lazy loading by default for code splitting (can be disabled via options)
     const lazy = ctx.options.lazy !== false;
-    ctx.generatedCode = generateBuildRoutesCode(parsed.routes, {
+    const options: CodeGeneratorOptions = {
         rootDir,
         lazy,
         rootNotFound: parsed.rootNotFound,
@@ -82,37 +152,469 @@ function generateRoutes(): string {
         rootPage: parsed.rootPage,
         rootError: parsed.rootError,
         rootLoading: parsed.rootLoading,
+        rootTemplate: parsed.rootTemplate,
+        rootLoader: parsed.rootLoader,
+        rootAction: parsed.rootAction,
         rootSlots: parsed.rootSlots,
-    });
-    outputDebug(ctx.generatedCode);
-    return ctx.generatedCode;
+        basename: resolveBasename(ctx.options.basename, ctx.config.base, ctx.options.routerMode),
+        routerMode: ctx.options.routerMode,
+        prerender: !!ctx.options.prerender,
+    };
+    if (ssr) {
+        ctx.ssrCode = generateBuildRoutesCode(parsed.routes, { ...options, ssr });
+        return ctx.ssrCode;
+    }
+    const code = generateBuildRoutesCode(parsed.routes, { ...options, staticParams: ctx.staticParams });
+    ctx.generatedCode = code;
+    // The file gets the code the dev server writes too, so it is re-exported
+    // unless the guards of a prerendered build made this code differ. Its
+    // diagnostics are the ones above.
+    const fileCode = ctx.staticParams
+        ? collectDiagnostics(() => generateBuildRoutesCode(parsed.routes, options)).result
+        : code;
+    const routesFile = emitRoutesFile(rootDir, ctx.options.emitFile, fileCode);
+    ctx.routesFile = fileCode === code ? routesFile : undefined;
+    outputDebug(ctx, code);
+    return code;
+}
+
+/**
+ * Prerendering runs in the 'browser' router mode only, needs a config file
+ * to build the server bundle from, and does not support intercept mode.
+ * Warns and returns false otherwise.
+ */
+function checkPrerenderSupport(
+    ctx: BuildContext,
+    config: ResolvedConfig,
+    parsed: ReturnType<typeof parseAppRouter>
+): boolean {
+    if ((ctx.options.routerMode ?? 'browser') !== 'browser') {
+        console.warn(
+            `[vite-plugin-react-app-router] prerender is only supported with the 'browser' ` +
+            `router mode; skipping.`
+        );
+        return false;
+    }
+    if (!config.configFile) {
+        console.warn(
+            `[vite-plugin-react-app-router] prerender needs a Vite config file to build ` +
+            `the server bundle from; skipping.`
+        );
+        return false;
+    }
+    if (parsed.intercepts.length > 0) {
+        console.warn(
+            `[vite-plugin-react-app-router] prerender is not supported while intercepting ` +
+            `routes are declared; skipping.`
+        );
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Whether the `strict` option raises warnings as build errors.
+ */
+function isStrict(strict: PluginOptions["strict"]): boolean {
+    return strict === true || (typeof strict === "object" && strict.warnings === "error");
 }
 
-const buildHandler: PluginHookHandler = {
-    configResolved(config: ResolvedConfig) {
-        ctx.config = config;
+/** Where the route manifest is written, relative to the output directory. */
+const MANIFEST_FILE_NAME = ".app-router/manifest.json";
 
-        // Pre-generate routes during build
-        generateRoutes();
-    },
-};
+/**
+ * Output chunks (and the CSS they pull in) needed to render the given
+ * source files: the chunks containing them plus their static imports.
+ */
+function getChunkFiles(
+    files: string[],
+    bundle: Rollup.OutputBundle,
+    chunksByModule: Map<string, Rollup.OutputChunk[]>
+): { chunks: string[]; css: string[] } {
+    const chunks = new Set<string>();
+    const css = new Set<string>();
+    const visit = (chunk: Rollup.OutputChunk): void => {
+        if (chunks.has(chunk.fileName)) return;
+        chunks.add(chunk.fileName);
+        chunk.viteMetadata?.importedCss.forEach((file) => css.add(file));
+        for (const imported of chunk.imports) {
+            const next = bundle[imported];
+            if (next && next.type === "chunk") visit(next);
+        }
+    };
+    for (const file of files) {
+        for (const chunk of chunksByModule.get(file) ?? []) visit(chunk);
+    }
+    return { chunks: [...chunks].sort(), css: [...css].sort() };
+}
+
+/** Concrete URLs for a page's `generateStaticParams()` output. */
+function getGeneratedPaths(page: StaticParamsResult): string[] {
+    return [
+        ...new Set(page.params.map((params) => fillRoutePattern(page.pattern, params, page.splat ?? undefined))),
+    ];
+}
+
+/**
+ * Builds the prerender bundle before the client environment: the client
+ * routes need the output of `generateStaticParams()`, which runs there, for
+ * `dynamicParams = false`. The bundle is kept for writeStaticOutput.
+ */
+async function buildStaticParams(ctx: BuildContext): Promise<void> {
+    const config = ctx.config;
+    const parsed = ctx.parsed;
+    if (!config || !parsed || parsed.routes.length === 0) return;
+    if (!resolvePrerenderOptions(ctx.options.prerender) || !checkPrerenderSupport(ctx, config, parsed)) return;
 
-// Export functions for use in the main plugin
-export function resolveId(id: string): string | undefined {
-    if (id === VIRTUAL_MODULE_ID) {
-        return RESOLVED_VIRTUAL_MODULE_ID;
+    const bundle = await buildPrerenderBundle(config);
+    try {
+        const generated = await bundle.entry.staticParams();
+        ctx.prerender = { bundle, generated };
+        ctx.staticParams = Object.fromEntries(
+            generated
+                .filter((page) => !page.dynamicParams)
+                .map((page) => [page.pattern, getGeneratedPaths(page)])
+        );
+    } catch (error) {
+        bundle.dispose();
+        throw error;
     }
-    return undefined;
+    // Its diagnostics are the ones of configResolved, which buildStart reports.
+    collectDiagnostics(() => generateRoutesCode(ctx, false));
 }
 
-export function load(id: string): string | undefined {
-    if (id === RESOLVED_VIRTUAL_MODULE_ID) {
-        return ctx.generatedCode || generateRoutes();
+/**
+ * Renders the prerendered pages and writes the sitemap once the client
+ * bundle is written. Problems with single pages are reported through
+ * `plugin`.
+ */
+async function writeStaticOutput(
+    ctx: BuildContext,
+    plugin: MinimalPluginContextWithoutEnvironment
+): Promise<void> {
+    const config = ctx.config;
+    const parsed = ctx.parsed;
+    const prerenderBundle = ctx.prerender;
+    ctx.prerender = undefined;
+    try {
+        if (!config || !parsed || parsed.routes.length === 0) return;
+
+        let sitemap = resolveSitemapOptions(ctx.options.sitemap);
+        if (sitemap && (ctx.options.routerMode ?? "browser") !== "browser") {
+            // Hash URLs are not crawled, and memory routes have no URL at all.
+            console.warn(
+                `[vite-plugin-react-app-router] sitemap is only written in the 'browser' ` +
+                `router mode; skipping.`
+            );
+            sitemap = undefined;
+        }
+        if (sitemap && !ctx.options.siteUrl) {
+            console.warn(
+                `[vite-plugin-react-app-router] sitemap needs the siteUrl option; skipping.`
+            );
+        }
+        const basename = resolveBasename(ctx.options.basename, config.base, ctx.options.routerMode);
+
+        if (prerenderBundle) {
+            const paths = [
+                ...getStaticPatterns(parsed.routes),
+                ...prerenderBundle.generated.flatMap(getGeneratedPaths),
+            ];
+            await prerenderApp({
+                config,
+                entry: prerenderBundle.bundle.entry,
+                paths: [...new Set(paths)],
+                hasNotFound: !!parsed.rootNotFound,
+                basename,
+                rootId: resolvePrerenderOptions(ctx.options.prerender)!.rootId,
+                modulePreloads: (pathname) => {
+                    const routes = ctx.bundleRoutes;
+                    const match = routes && matchManifestRoute(routes.manifest, pathname);
+                    return match ? routes.chunks.get(match.route.pattern) ?? [] : [];
+                },
+            });
+        }
+
+        if (sitemap && ctx.options.siteUrl) {
+            await writeSitemap({
+                config,
+                tree: parsed.tree,
+                rootPage: parsed.rootPage,
+                siteUrl: ctx.options.siteUrl,
+                basename,
+                sitemap,
+                staticParams: prerenderBundle?.generated ?? [],
+                warn: (message) => plugin.warn(message),
+            });
+        }
+    } finally {
+        prerenderBundle?.bundle.dispose();
     }
-    return undefined;
+}
+
+/**
+ * Builds the environments of `vite build` with the prerender steps around
+ * the client: the prerender bundle and its static params first, the pages
+ * and the sitemap once the client bundle is written. Environments left
+ * unbuilt are built as Vite would have.
+ */
+async function buildApp(
+    ctx: BuildContext,
+    builder: ViteBuilder,
+    plugin: MinimalPluginContextWithoutEnvironment
+): Promise<void> {
+    const environments = Object.values(builder.environments);
+    const client = builder.environments.client;
+    if (!client || !ctx.config || isPrerenderBuild(ctx.config)) return;
+    const staticOutput = !!resolvePrerenderOptions(ctx.options.prerender) || !!resolveSitemapOptions(ctx.options.sitemap);
+    const buildAll = environments.every((environment) => !environment.isBuilt);
+
+    if (client.isBuilt || client.config.build.watch) {
+        if (staticOutput) {
+            console.warn(
+                `[vite-plugin-react-app-router] prerender and sitemap need the client environment ` +
+                `to be built by the plugin, outside watch mode; skipping.`
+            );
+        }
+    } else {
+        await buildStaticParams(ctx);
+        ctx.appBuild = true;
+        try {
+            await builder.build(client);
+        } catch (error) {
+            ctx.prerender?.bundle.dispose();
+            ctx.prerender = undefined;
+            throw error;
+        } finally {
+            ctx.appBuild = false;
+        }
+        if (buildAll) {
+            for (const environment of environments) {
+                if (!environment.isBuilt) await builder.build(environment);
+            }
+        }
+        await writeStaticOutput(ctx, plugin);
+    }
+}
+
+/**
+ * Prints the route sizes recorded by generateBundle.
+ */
+function printBuildSummary(ctx: BuildContext): void {
+    const summary = ctx.buildSummary;
+    const options = resolveBuildSummaryOptions(ctx.options.buildSummary);
+    ctx.buildSummary = undefined;
+    if (!summary || !options || summary.rows.length === 0) return;
+
+    const { lines, overBudget } = formatBuildSummary(summary, options.budget);
+    console.log(`\n[vite-plugin-react-app-router] Routes\n${lines.join("\n")}\n`);
+    if (overBudget.length > 0) {
+        console.warn(
+            `[vite-plugin-react-app-router] Over the ${options.budget} kB budget: ` +
+            overBudget.map((row) => row.pattern).join(", ")
+        );
+    }
+}
+
+/**
+ * Build hooks and virtual module resolution of one plugin instance.
+ */
+export interface BuildHandler {
+    handler: PluginHookHandler;
+    resolveId(id: string): string | undefined;
+    load(id: string, options?: { ssr?: boolean }): string | undefined;
+}
+
+/**
+ * Creates the build handler of a plugin instance. Each instance has its own
+ * context: the prerender bundle is a separate build of the same config file,
+ * whose plugin instance must leave the client build's state alone.
+ */
+export function createBuildHandler(options: PluginOptions): BuildHandler {
+    const ctx: BuildContext = {
+        options,
+        diagnostics: [],
+    };
+
+    const handler: PluginHookHandler = {
+        config(config, env) {
+            const chunking = ctx.options.chunking;
+            // The prerender bundle renders on the server — nothing to split.
+            if (!chunking || chunking === "per-file" || env.isSsrBuild) return;
+
+            const output = config.build?.rollupOptions?.output;
+            if (Array.isArray(output)) {
+                console.warn(
+                    `[vite-plugin-react-app-router] chunking is not applied to multiple ` +
+                    `build.rollupOptions.output entries; set manualChunks on each instead.`
+                );
+                return;
+            }
+            const userManualChunks = output?.manualChunks;
+            if (userManualChunks && typeof userManualChunks !== "function") {
+                console.warn(
+                    `[vite-plugin-react-app-router] chunking cannot be combined with an object ` +
+                    `build.rollupOptions.output.manualChunks; use the function form instead.`
+                );
+                return;
+            }
+
+            ctx.routeChunks = createRouteManualChunks(() => ctx.appDir, chunking, userManualChunks);
+            return {
+                build: {
+                    rollupOptions: {
+                        output: {
+                            manualChunks: ctx.routeChunks.manualChunks,
+                        },
+                    },
+                },
+            };
+        },
+
+        configResolved(config: ResolvedConfig) {
+            ctx.config = config;
+            // Shared by the route parse and the chunking option.
+            ctx.appDir = path.resolve(config.root, ctx.options.appDir || "src/app");
+
+            // Pre-generate routes during build. The prerender bundle only
+            // loads the server flavour, whose diagnostics are not reported:
+            // the client build reports the same.
+            generateRoutes(ctx, isPrerenderBuild(config));
+        },
+
+        async buildStart() {
+            const diagnostics = ctx.diagnostics;
+            ctx.diagnostics = [];
+            const strict = isStrict(ctx.options.strict);
+            const isError = (diagnostic: Diagnostic) => strict || diagnostic.severity === "error";
+            for (const diagnostic of diagnostics) {
+                if (isError(diagnostic)) continue;
+                this.warn({
+                    message: diagnostic.message,
+                    pluginCode: diagnostic.code,
+                    ...(diagnostic.file ? { id: diagnostic.file } : {}),
+                });
+            }
+            const errors = diagnostics.filter(isError);
+            if (errors.length > 0) {
+                const note = strict ? "\n(strict mode turns routing warnings into build errors)" : "";
+                this.error({
+                    message: errors.map((diagnostic) => `[${diagnostic.code}] ${diagnostic.message}`).join("\n") + note,
+                    pluginCode: errors[0]!.code,
+                    ...(errors[0]!.file ? { id: errors[0]!.file } : {}),
+                });
+            }
+
+            if (this.environment.config.consumer === "client") {
+                ctx.bundleRoutes = undefined;
+                // Once per build, from the parse of configResolved.
+                const typesPath = ctx.config && resolveRouteTypesPath(ctx.config.root, ctx.options.dts);
+                if (typesPath && ctx.parsed) {
+                    writeRouteTypes(typesPath, ctx.parsed.routes);
+                }
+            }
+        },
+
+        buildEnd() {
+            // The module graph is complete; chunking comes next.
+            ctx.routeChunks?.analyze(this);
+        },
+
+        generateBundle(_outputOptions, bundle) {
+            const config = ctx.config;
+            if (!config || !ctx.parsed || this.environment.config.consumer !== "client") return;
+
+            // Index chunks by the (root-relative) source modules they contain.
+            const chunksByModule = new Map<string, Rollup.OutputChunk[]>();
+            for (const output of Object.values(bundle)) {
+                if (output.type !== "chunk") continue;
+                for (const moduleId of output.moduleIds) {
+                    if (moduleId.startsWith("\0")) continue;
+                    const file = path.relative(config.root, moduleId.split("?")[0]!).replace(/\\/g, "/");
+                    const list = chunksByModule.get(file) ?? [];
+                    list.push(output);
+                    chunksByModule.set(file, list);
+                }
+            }
+
+            const manifest = createRouteManifest(ctx.parsed, config.root);
+            const describeFiles = (files: string[]) => getChunkFiles(files, bundle, chunksByModule);
+            ctx.bundleRoutes = { manifest, chunks: new Map() };
+            const output = {
+                basename: resolveBasename(ctx.options.basename, config.base, ctx.options.routerMode) ?? "/",
+                routerMode: ctx.options.routerMode ?? "browser",
+                routes: manifest.routes.map((route) => {
+                    const files = describeFiles(getManifestRouteFiles(route));
+                    ctx.bundleRoutes!.chunks.set(route.pattern, files.chunks);
+                    return { ...route, ...files };
+                }),
+                intercepts: manifest.intercepts.map((ic) => ({
+                    ...ic,
+                    ...describeFiles([...(ic.layout ? [ic.layout] : []), ...ic.pages]),
+                })),
+                ...(manifest.notFound ? { notFound: manifest.notFound } : {}),
+            };
+            this.emitFile({
+                type: "asset",
+                fileName: MANIFEST_FILE_NAME,
+                source: JSON.stringify(output, null, 2) + "\n",
+            });
+
+            if (resolveBuildSummaryOptions(ctx.options.buildSummary)) {
+                ctx.buildSummary = createBuildSummary(ctx.parsed.routes, bundle, chunksByModule, config.root);
+            }
+        },
+
+        closeBundle() {
+            if (this.environment.config.consumer !== "client") return;
+            printBuildSummary(ctx);
+            const staticOutput =
+                !!resolvePrerenderOptions(ctx.options.prerender) || !!resolveSitemapOptions(ctx.options.sitemap);
+            if (staticOutput && !ctx.appBuild) {
+                console.warn(
+                    `[vite-plugin-react-app-router] prerender and sitemap run in Vite's buildApp hook ` +
+                    `(\`vite build\` with Vite 7 or later); skipping.`
+                );
+            }
+        },
+
+        async buildApp(builder) {
+            await buildApp(ctx, builder, this);
+        },
+    };
+
+    return {
+        handler,
+
+        resolveId(id: string): string | undefined {
+            if (id === VIRTUAL_MODULE_ID) {
+                return RESOLVED_VIRTUAL_MODULE_ID;
+            }
+            if (id === PRERENDER_MODULE_ID) {
+                return RESOLVED_PRERENDER_MODULE_ID;
+            }
+            return undefined;
+        },
+
+        load(id: string, options?: { ssr?: boolean }): string | undefined {
+            if (id === RESOLVED_VIRTUAL_MODULE_ID) {
+                if (options?.ssr) {
+                    return ctx.ssrCode || generateRoutes(ctx, true);
+                }
+                const code = ctx.generatedCode || generateRoutes(ctx);
+                return ctx.routesFile ? generateRoutesFileReExport(ctx.routesFile) : code;
+            }
+            if (id === RESOLVED_PRERENDER_MODULE_ID) {
+                return generatePrerenderEntryCode({
+                    root: ctx.config?.root || process.cwd(),
+                    basename: resolveBasename(ctx.options.basename, ctx.config?.base, ctx.options.routerMode),
+                    pages: ctx.parsed ? collectStaticParamsPages(ctx.parsed.tree) : [],
+                });
+            }
+            return undefined;
+        },
+    };
 }
 
 export const VIRTUAL_ID = VIRTUAL_MODULE_ID;
 export const RESOLVED_ID = RESOLVED_VIRTUAL_MODULE_ID;
-
-export default buildHandler;
\ No newline at end of file
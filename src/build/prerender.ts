@@ -0,0 +1,509 @@
+/**
+ * Static prerendering (SSG)
+ *
+ * Builds a small server bundle around the generated routes, asks dynamic
+ * pages for their `generateStaticParams()`, and — once the client bundle is
+ * written — renders every resulting URL through react-router's static
+ * handler into a copy of the built index.html. The client hydrates that
+ * markup through `createAppRoot`.
+ */
+
+import type { ResolvedConfig } from "vite";
+import { build } from "vite";
+import {
+    PRERENDERED_ATTR,
+    getModuleExports,
+    type ParsedRoute,
+    type PluginOptions,
+    type RouteNode,
+} from "../commons/index.js";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import * as path from "path";
+import * as fs from "fs";
+
+export const PRERENDER_MODULE_ID = "virtual:app-router/prerender";
+
+/** Entry chunk name of the prerender bundle. */
+const PRERENDER_ENTRY_NAME = "app-router-prerender";
+
+/** Attribute marking the `<meta>` tags owned by the metadata runtime. */
+const MANAGED_META_ATTR = "data-app-router";
+
+/** URL used to render the root not-found page into `404.html`. */
+const NOT_FOUND_PROBE_PATH = "/__app-router-not-found__";
+
+export interface ResolvedPrerenderOptions {
+    rootId: string;
+}
+
+/**
+ * Normalises the `prerender` option, or returns undefined when prerendering
+ * is disabled.
+ */
+export function resolvePrerenderOptions(
+    prerender: PluginOptions["prerender"]
+): ResolvedPrerenderOptions | undefined {
+    if (!prerender) return undefined;
+    const rootId = typeof prerender === "object" && prerender.rootId ? prerender.rootId : "root";
+    return { rootId };
+}
+
+/**
+ * react-router-dom v6 ships the static router APIs from its `/server`
+ * entry; v7 exports them from the package root.
+ */
+function resolveRouterServerModule(root: string): string {
+    try {
+        const require = createRequire(path.join(root, "package.json"));
+        const { version } = require("react-router-dom/package.json") as { version: string };
+        return version.startsWith("6.") ? "react-router-dom/server" : "react-router-dom";
+    } catch {
+        return "react-router-dom";
+    }
+}
+
+/** A dynamic page declaring `generateStaticParams` and/or `dynamicParams`. */
+export interface StaticParamsPage {
+    /** Route pattern (e.g. "/docs/*"). */
+    pattern: string;
+    /** Param name of the catch-all segment, which react-router calls `*`. */
+    splat?: string;
+    pagePath: string;
+}
+
+/**
+ * Walks the route tree for pages under `[param]` / `[...param]` segments
+ * (parametric shared-module invocations included) whose module exports
+ * `generateStaticParams` or `dynamicParams`.
+ */
+export function collectStaticParamsPages(tree: RouteNode[]): StaticParamsPage[] {
+    const pages = new Map<string, StaticParamsPage>();
+    function walk(node: RouteNode, splat: string | undefined): void {
+        if (node.isIntercepting) return;
+        const nodeSplat = (node.isCatchAll || node.isOptionalCatchAll) && node.paramName ? node.paramName : splat;
+        if (node.pagePath && /(^|\/)(:|\*)/.test(node.path) && !pages.has(node.path)) {
+            const exports = getModuleExports(node.pagePath);
+            if (exports.has("generateStaticParams") || exports.has("dynamicParams")) {
+                pages.set(node.path, {
+                    pattern: node.path,
+                    ...(nodeSplat ? { splat: nodeSplat } : {}),
+                    pagePath: node.pagePath,
+                });
+            }
+        }
+        for (const child of node.children) walk(child, nodeSplat);
+    }
+    for (const node of tree) walk(node, undefined);
+    return [...pages.values()];
+}
+
+/** Param values for a route pattern; catch-all values may be arrays. */
+export type RouteParamValues = Record<string, string | number | ReadonlyArray<string | number> | null | undefined>;
+
+/**
+ * Fills a route pattern with param values: `:name` segments take
+ * `params[name]`, the `*` segment takes `params[splat]` (or `params['*']`),
+ * either one item per segment or an `"a/b"` string. Throws when a required
+ * param is missing.
+ */
+export function fillRoutePattern(pattern: string, params: RouteParamValues, splat?: string): string {
+    const filled = pattern
+        .split("/")
+        .map((segment) => {
+            if (segment.startsWith(":")) {
+                const value = params[segment.slice(1)];
+                if (value === undefined || value === null || value === "") {
+                    throw new Error(`${pattern}: missing param "${segment.slice(1)}"`);
+                }
+                return encodeURIComponent(String(value));
+            }
+            if (segment === "*") {
+                const value = params[splat ?? "*"] ?? params["*"];
+                const parts =
+                    value === undefined || value === null
+                        ? []
+                        : Array.isArray(value)
+                            ? value
+                            : String(value).split("/");
+                return parts
+                    .map(String)
+                    .filter((part) => part !== "")
+                    .map((part) => encodeURIComponent(part))
+                    .join("/");
+            }
+            return segment;
+        })
+        .join("/");
+    return filled.replace(/\/{2,}/g, "/").replace(/(.)\/$/, "$1") || "/";
+}
+
+/**
+ * Generates the server entry of the prerender bundle.
+ * - `staticParams()` calls each dynamic page's `generateStaticParams()`.
+ * - `render(url)` runs the route loaders, renders the matched tree to a
+ *   string once every Suspense boundary has settled and returns the pieces
+ *   the HTML writer needs.
+ */
+export function generatePrerenderEntryCode(options: {
+    root: string;
+    basename?: string;
+    pages: StaticParamsPage[];
+}): string {
+    const routerModule = resolveRouterServerModule(options.root);
+    const handlerOptions = options.basename ? `{ basename: ${JSON.stringify(options.basename)} }` : "undefined";
+    const pageEntries = options.pages
+        .map((page) => {
+            const importPath = "/" + path.relative(options.root, page.pagePath).replace(/\\/g, "/");
+            return (
+                `  { pattern: ${JSON.stringify(page.pattern)}, splat: ${JSON.stringify(page.splat ?? null)}, ` +
+                `load: () => import(${JSON.stringify(importPath)}) },`
+            );
+        })
+        .join("\n");
+    return `
+import { createElement } from "react";
+import { renderToPipeableStream } from "react-dom/server";
+import { createStaticHandler, createStaticRouter, StaticRouterProvider } from ${JSON.stringify(routerModule)};
+import { collectServerMetadata, metadataToTags } from "vite-plugin-react-app-router/runtime";
+import { PassThrough } from "node:stream";
+import { routes } from "virtual:app-router";
+
+const handler = createStaticHandler(routes, ${handlerOptions});
+
+const staticParamsPages = [
+${pageEntries}
+];
+
+export async function staticParams() {
+  const result = [];
+  for (const page of staticParamsPages) {
+    const mod = await page.load();
+    const params = typeof mod.generateStaticParams === "function" ? await mod.generateStaticParams() : [];
+    result.push({
+      pattern: page.pattern,
+      splat: page.splat,
+      params: params || [],
+      dynamicParams: mod.dynamicParams !== false,
+    });
+  }
+  return result;
+}
+
+// Mirrors what StaticRouterProvider embeds when hydrate is enabled, so
+// createBrowserRouter can revive route errors from the hydration data.
+function serializeErrors(errors) {
+  if (!errors) return errors;
+  const serialized = {};
+  for (const [key, value] of Object.entries(errors)) {
+    if (value && typeof value === "object" && "status" in value && "internal" in value) {
+      serialized[key] = { ...value, __type: "RouteErrorResponse" };
+    } else if (value instanceof Error) {
+      serialized[key] = { message: value.message, __type: "Error" };
+    } else {
+      serialized[key] = value;
+    }
+  }
+  return serialized;
+}
+
+function renderElement(element) {
+  return new Promise((resolve, reject) => {
+    let html = "";
+    const sink = new PassThrough();
+    sink.setEncoding("utf8");
+    sink.on("data", (chunk) => { html += chunk; });
+    sink.on("end", () => resolve(html));
+    sink.on("error", reject);
+    const stream = renderToPipeableStream(element, {
+      onAllReady() { stream.pipe(sink); },
+      onShellError: reject,
+      onError(error) {
+        console.error("[vite-plugin-react-app-router] prerender error:", error);
+      },
+    });
+  });
+}
+
+export async function render(url) {
+  const context = await handler.query(new Request(url));
+  if (context instanceof Response) {
+    return { status: context.status, redirect: context.headers.get("Location") };
+  }
+  const router = createStaticRouter(handler.dataRoutes, context);
+  collectServerMetadata();
+  const html = await renderElement(
+    createElement(StaticRouterProvider, { router, context, hydrate: false })
+  );
+  const metadata = collectServerMetadata();
+  return {
+    status: context.statusCode,
+    html,
+    hydrationData: {
+      loaderData: context.loaderData,
+      actionData: context.actionData,
+      errors: serializeErrors(context.errors),
+    },
+    title: metadata.title,
+    headTags: metadataToTags(metadata),
+  };
+}
+`;
+}
+
+interface PrerenderResult {
+    status: number;
+    redirect?: string | null;
+    html?: string;
+    hydrationData?: unknown;
+    title?: string;
+    headTags?: Array<[string, string, string]>;
+}
+
+export interface StaticParamsResult {
+    pattern: string;
+    /** Param name of the catch-all segment, if any. */
+    splat: string | null;
+    /** What `generateStaticParams()` returned (empty when not exported). */
+    params: RouteParamValues[];
+    /** False when the page exports `dynamicParams = false`. */
+    dynamicParams: boolean;
+}
+
+export interface PrerenderEntry {
+    staticParams(): Promise<StaticParamsResult[]>;
+    render(url: string): Promise<PrerenderResult>;
+}
+
+export interface PrerenderBundle {
+    entry: PrerenderEntry;
+    /** Removes the bundle from the cache directory. */
+    dispose(): void;
+}
+
+export interface PrerenderAppOptions {
+    /** Resolved config of the client build. */
+    config: ResolvedConfig;
+    entry: PrerenderEntry;
+    /** URLs to render: the static routes plus the generated params. */
+    paths: string[];
+    /** Whether the app declares a root not-found.tsx (rendered to 404.html). */
+    hasNotFound: boolean;
+    basename?: string;
+    rootId: string;
+    /**
+     * Output chunks (relative to the output directory) the route matching a
+     * pathname renders through; each page links them as `modulepreload`.
+     */
+    modulePreloads?: (pathname: string) => string[];
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/"/g, "&quot;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Writes a render result into the HTML template: the markup goes into the
+ * app container (flagged for hydration), the loader data right after it and
+ * the resolved metadata into `<head>`. Returns undefined when the container
+ * cannot be found.
+ */
+function injectIntoTemplate(template: string, result: PrerenderResult, rootId: string): string | undefined {
+    const openTag = new RegExp(`<([a-zA-Z][\\w-]*)([^>]*\\sid=["']${escapeRegExp(rootId)}["'][^>]*)>`);
+    const match = openTag.exec(template);
+    if (!match) return undefined;
+    const [opening, tagName, attrs] = match;
+    const contentStart = match.index + opening.length;
+    const closing = `</${tagName}>`;
+    const contentEnd = template.indexOf(closing, contentStart);
+    if (contentEnd === -1) return undefined;
+
+    // `<` is escaped so loader data can never close the script tag early.
+    const hydrationScript =
+        `<script>window.__staticRouterHydrationData = ` +
+        `${JSON.stringify(result.hydrationData ?? {}).replace(/</g, "\\u003c")};</script>`;
+
+    let html =
+        template.slice(0, match.index) +
+        `<${tagName}${attrs} ${PRERENDERED_ATTR}>${result.html ?? ""}${closing}` +
+        hydrationScript +
+        template.slice(contentEnd + closing.length);
+
+    if (result.title !== undefined) {
+        const title = `<title>${escapeHtml(result.title)}</title>`;
+        html = /<title>[\s\S]*?<\/title>/.test(html)
+            ? html.replace(/<title>[\s\S]*?<\/title>/, () => title)
+            : html.replace("</head>", () => `${title}</head>`);
+    }
+    const metaTags = (result.headTags ?? [])
+        .map(
+            ([attr, key, content]) =>
+                `<meta ${attr}="${escapeHtml(key)}" content="${escapeHtml(content)}" ${MANAGED_META_ATTR}>`
+        )
+        .join("");
+    if (metaTags) {
+        html = html.replace("</head>", () => `${metaTags}</head>`);
+    }
+    return html;
+}
+
+/**
+ * Adds `<link rel="modulepreload">` tags for the route's chunks, so the
+ * browser fetches its lazy layouts and page alongside the entry instead of
+ * after it. Chunks the template already references are skipped.
+ */
+function injectModulePreloads(html: string, hrefs: string[]): string {
+    const links = hrefs
+        .filter((href) => !html.includes(`"${href}"`))
+        .map((href) => `<link rel="modulepreload" crossorigin href="${escapeHtml(href)}">`)
+        .join("");
+    return links ? html.replace("</head>", () => `${links}</head>`) : html;
+}
+
+/**
+ * With a relative `base` (`./`) the built index.html references its assets
+ * relative to the output root; a copy at `htmlFile` (relative to the output
+ * directory) must climb back there first. Returns the prefix that replaces
+ * the leading `./`.
+ */
+function relativeBase(htmlFile: string): string {
+    const dir = path.posix.dirname(htmlFile);
+    return dir === "." ? "./" : "../".repeat(dir.split("/").length);
+}
+
+/**
+ * Returns the patterns that map to exactly one URL — anything with a param
+ * or a catch-all segment is skipped.
+ */
+export function getStaticPatterns(routes: ParsedRoute[]): string[] {
+    const patterns = new Set<string>();
+    for (const route of routes) {
+        const pattern = route.pattern || "/";
+        if (pattern.split("/").some((segment) => segment.startsWith(":") || segment === "*")) {
+            continue;
+        }
+        patterns.add(pattern);
+    }
+    return [...patterns].sort();
+}
+
+/**
+ * Whether `config` is the server bundle build started by
+ * buildPrerenderBundle.
+ */
+export function isPrerenderBuild(config: ResolvedConfig): boolean {
+    const input = config.build.rollupOptions.input;
+    return typeof input === "object" && !Array.isArray(input) && input[PRERENDER_ENTRY_NAME] === PRERENDER_MODULE_ID;
+}
+
+/**
+ * Builds the server bundle from the project's config file into the cache
+ * directory and imports it.
+ */
+export async function buildPrerenderBundle(config: ResolvedConfig): Promise<PrerenderBundle> {
+    const bundleDir = path.join(config.cacheDir, "app-router-prerender");
+    const dispose = () => fs.rmSync(bundleDir, { recursive: true, force: true });
+
+    await build({
+        configFile: config.configFile,
+        root: config.root,
+        mode: config.mode,
+        logLevel: "warn",
+        build: {
+            ssr: true,
+            outDir: bundleDir,
+            emptyOutDir: true,
+            copyPublicDir: false,
+            rollupOptions: {
+                input: { [PRERENDER_ENTRY_NAME]: PRERENDER_MODULE_ID },
+                output: {
+                    format: "es",
+                    entryFileNames: "[name].mjs",
+                    chunkFileNames: "[name]-[hash].mjs",
+                },
+            },
+        },
+    });
+
+    try {
+        const entryUrl = pathToFileURL(path.join(bundleDir, `${PRERENDER_ENTRY_NAME}.mjs`)).href;
+        const entry = (await import(entryUrl)) as PrerenderEntry;
+        return { entry, dispose };
+    } catch (error) {
+        dispose();
+        throw error;
+    }
+}
+
+/**
+ * Renders every URL into the client output directory: `/` overwrites
+ * index.html, `/about` lands in about/index.html.
+ */
+export async function prerenderApp(options: PrerenderAppOptions): Promise<void> {
+    const { config, entry, rootId, basename } = options;
+    const outDir = path.resolve(config.root, config.build.outDir);
+    const templatePath = path.join(outDir, "index.html");
+    if (!fs.existsSync(templatePath)) {
+        console.warn(`[vite-plugin-react-app-router] prerender: ${templatePath} not found; skipping.`);
+        return;
+    }
+    const template = fs.readFileSync(templatePath, "utf-8");
+    const isRelativeBase = config.base === "" || config.base.startsWith(".");
+
+    /** Renders `pathname` into the page written to `htmlFile` (relative to outDir). */
+    const renderPage = async (pathname: string, htmlFile: string): Promise<string | undefined> => {
+        const url = `http://localhost${basename ?? ""}${pathname === "/" && basename ? "" : pathname}`;
+        const result = await entry.render(url);
+        if (result.redirect) {
+            console.warn(
+                `[vite-plugin-react-app-router] prerender: ${pathname} redirects to ${result.redirect}; skipping.`
+            );
+            return undefined;
+        }
+        const assetBase = isRelativeBase ? relativeBase(htmlFile) : config.base;
+        const pageTemplate = isRelativeBase
+            ? template.replace(/(\s(?:src|href)=["'])\.\//g, (_match, attr: string) => attr + assetBase)
+            : template;
+        const html = injectIntoTemplate(pageTemplate, result, rootId);
+        if (html === undefined) {
+            console.warn(
+                `[vite-plugin-react-app-router] prerender: no element with id="${rootId}" in index.html; skipping.`
+            );
+            return undefined;
+        }
+        const chunks = options.modulePreloads?.(pathname) ?? [];
+        return injectModulePreloads(html, chunks.map((file) => assetBase + file));
+    };
+
+    let count = 0;
+    for (const pathname of options.paths) {
+        const target = path.join(outDir, decodeURIComponent(pathname), "index.html");
+        if (!target.startsWith(outDir + path.sep)) {
+            console.warn(`[vite-plugin-react-app-router] prerender: ${pathname} resolves outside the output directory; skipping.`);
+            continue;
+        }
+        const html = await renderPage(pathname, path.relative(outDir, target).replace(/\\/g, "/"));
+        if (html === undefined) continue;
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, html);
+        count++;
+    }
+
+    if (options.hasNotFound) {
+        const html = await renderPage(NOT_FOUND_PROBE_PATH, "404.html");
+        if (html !== undefined) {
+            fs.writeFileSync(path.join(outDir, "404.html"), html);
+            count++;
+        }
+    }
+
+    config.logger.info(`[vite-plugin-react-app-router] prerendered ${count} page(s)`);
+}
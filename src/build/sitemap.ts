@@ -0,0 +1,160 @@
+/**
+ * Sitemap generation
+ *
+ * Walks the parsed route tree after the client build and writes
+ * `sitemap.xml` (plus a `robots.txt` pointing at it) into the output
+ * directory. Dynamic routes are expanded through the `sitemap.params`
+ * provider or the params the prerender step collected.
+ */
+
+import type { ResolvedConfig } from "vite";
+import {
+    getLiteralExport,
+    type PluginOptions,
+    type RouteNode,
+    type SitemapOptions,
+} from "../commons/index.js";
+import { fillRoutePattern, type RouteParamValues, type StaticParamsResult } from "./prerender.js";
+import * as path from "path";
+import * as fs from "fs";
+
+const CHANGEFREQ_VALUES = new Set(["always", "hourly", "daily", "weekly", "monthly", "yearly", "never"]);
+
+/**
+ * Normalises the `sitemap` option, or returns undefined when it is disabled.
+ */
+export function resolveSitemapOptions(
+    sitemap: PluginOptions["sitemap"]
+): SitemapOptions | undefined {
+    if (!sitemap) return undefined;
+    return sitemap === true ? {} : sitemap;
+}
+
+interface SitemapPage {
+    pattern: string;
+    splat?: string;
+    pagePath: string;
+}
+
+/**
+ * Collects every page the sitemap may list. Intercepting subtrees (overlays
+ * of pages that are listed on their own), shared-module definitions and
+ * private `_` folders are skipped; `@slot` trees live outside `children` and
+ * are never visited.
+ */
+function collectSitemapPages(tree: RouteNode[], rootPage: string | undefined): SitemapPage[] {
+    const pages = new Map<string, SitemapPage>();
+    if (rootPage) pages.set("/", { pattern: "/", pagePath: rootPage });
+    function walk(node: RouteNode, splat: string | undefined): void {
+        if (node.isIntercepting || node.isSharedDef || node.segment.startsWith("_")) return;
+        const nodeSplat = (node.isCatchAll || node.isOptionalCatchAll) && node.paramName ? node.paramName : splat;
+        const pattern = node.path || "/";
+        if (node.pagePath && !pages.has(pattern)) {
+            pages.set(pattern, {
+                pattern,
+                ...(nodeSplat ? { splat: nodeSplat } : {}),
+                pagePath: node.pagePath,
+            });
+        }
+        for (const child of node.children) walk(child, nodeSplat);
+    }
+    for (const node of tree) walk(node, undefined);
+    return [...pages.values()].sort((a, b) => a.pattern.localeCompare(b.pattern));
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+export interface WriteSitemapOptions {
+    /** Resolved config of the client build. */
+    config: ResolvedConfig;
+    tree: RouteNode[];
+    rootPage?: string;
+    siteUrl: string;
+    basename?: string;
+    sitemap: SitemapOptions;
+    /** `generateStaticParams()` output, when the prerender step ran. */
+    staticParams: StaticParamsResult[];
+    /** Reports a dynamic page left out because its params could not be listed. */
+    warn(message: string): void;
+}
+
+/**
+ * Writes `sitemap.xml` and, unless disabled or already present (e.g. copied
+ * from `public/`), `robots.txt`.
+ */
+export async function writeSitemap(options: WriteSitemapOptions): Promise<void> {
+    const { config, sitemap } = options;
+    const outDir = path.resolve(config.root, config.build.outDir);
+    const origin = options.siteUrl.replace(/\/+$/, "") + (options.basename ?? "");
+    const generated = new Map(options.staticParams.map((page) => [page.pattern, page.params]));
+
+    const entries: string[] = [];
+    const seen = new Set<string>();
+    for (const page of collectSitemapPages(options.tree, options.rootPage)) {
+        let paths: string[];
+        if (!/(^|\/)(:|\*)/.test(page.pattern)) {
+            paths = [page.pattern];
+        } else {
+            let params: RouteParamValues[] | undefined;
+            try {
+                params = (await sitemap.params?.(page.pattern)) ?? generated.get(page.pattern);
+            } catch (error) {
+                options.warn(
+                    `sitemap: params(${JSON.stringify(page.pattern)}) threw: ` +
+                    `${(error as Error).message}; the route is left out.`
+                );
+                continue;
+            }
+            if (!params) continue;
+            try {
+                paths = params.map((values) => fillRoutePattern(page.pattern, values, page.splat));
+            } catch (error) {
+                // fillRoutePattern names the pattern itself.
+                options.warn(`sitemap: ${(error as Error).message}; the route is left out.`);
+                continue;
+            }
+        }
+
+        const changefreq = getLiteralExport(page.pagePath, "changefreq");
+        const priority = getLiteralExport(page.pagePath, "priority");
+        for (const pathname of paths) {
+            if (seen.has(pathname)) continue;
+            seen.add(pathname);
+            const loc = origin + (pathname === "/" && options.basename ? "" : pathname);
+            const fields = [`<loc>${escapeXml(loc)}</loc>`];
+            if (typeof changefreq === "string" && CHANGEFREQ_VALUES.has(changefreq)) {
+                fields.push(`<changefreq>${changefreq}</changefreq>`);
+            }
+            if (typeof priority === "number" && priority >= 0 && priority <= 1) {
+                fields.push(`<priority>${priority}</priority>`);
+            }
+            entries.push(`  <url>${fields.join("")}</url>`);
+        }
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(
+        path.join(outDir, "sitemap.xml"),
+        [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+            ...entries,
+            "</urlset>",
+            "",
+        ].join("\n")
+    );
+
+    const robotsPath = path.join(outDir, "robots.txt");
+    if (sitemap.robots !== false && !fs.existsSync(robotsPath)) {
+        fs.writeFileSync(robotsPath, `User-agent: *\nAllow: /\n\nSitemap: ${origin}/sitemap.xml\n`);
+    }
+
+    config.logger.info(`[vite-plugin-react-app-router] sitemap.xml lists ${entries.length} URL(s)`);
+}
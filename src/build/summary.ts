@@ -0,0 +1,168 @@
+/**
+ * Build summary (`buildSummary` option)
+ *
+ * Prints a table of the routes once the client bundle is generated: whether
+ * each page is lazily loaded, the JS and CSS only that route pulls in, the
+ * JS and CSS its layouts add on top of the entry, and the first-load JS of
+ * the whole chain. Routes over the `buildSummary.budget` are flagged, so a folder that
+ * blew up the bundle can be found without a bundle analyzer.
+ */
+
+import type { Rollup } from "vite";
+import type { BuildSummaryOptions, ParsedRoute, PluginOptions } from "../commons/index.js";
+import * as path from "path";
+
+export interface RouteSizeRow {
+    pattern: string;
+    /** The page is not part of the entry's static imports. */
+    lazy: boolean;
+    /** JS of the chunks only the page pulls in. */
+    js: number;
+    /** CSS of the chunks only the page pulls in. */
+    css: number;
+    /** JS the layouts add on top of the entry. */
+    layouts: number;
+    /** CSS the layouts add on top of the entry. */
+    layoutsCss: number;
+    /** Entry, layouts and page JS together. */
+    firstLoad: number;
+}
+
+export interface BuildSummary {
+    rows: RouteSizeRow[];
+    /** JS and CSS every route loads: the entry and its static imports. */
+    shared: { js: number; css: number };
+}
+
+/**
+ * Normalises the `buildSummary` option, or returns undefined when the
+ * summary is disabled (the default).
+ */
+export function resolveBuildSummaryOptions(
+    buildSummary: PluginOptions["buildSummary"]
+): BuildSummaryOptions | undefined {
+    if (!buildSummary) return undefined;
+    return typeof buildSummary === "object" ? buildSummary : {};
+}
+
+/**
+ * Adds `chunk` and its static imports to `into`.
+ */
+function collectStaticChunks(
+    chunk: Rollup.OutputChunk,
+    bundle: Rollup.OutputBundle,
+    into: Set<Rollup.OutputChunk>
+): void {
+    if (into.has(chunk)) return;
+    into.add(chunk);
+    for (const imported of chunk.imports) {
+        const next = bundle[imported];
+        if (next && next.type === "chunk") collectStaticChunks(next, bundle, into);
+    }
+}
+
+function measure(
+    chunks: Iterable<Rollup.OutputChunk>,
+    bundle: Rollup.OutputBundle
+): { js: number; css: number } {
+    let js = 0;
+    const cssFiles = new Set<string>();
+    for (const chunk of chunks) {
+        js += Buffer.byteLength(chunk.code);
+        chunk.viteMetadata?.importedCss.forEach((file) => cssFiles.add(file));
+    }
+    let css = 0;
+    for (const file of cssFiles) {
+        const asset = bundle[file];
+        if (asset && asset.type === "asset") {
+            css += typeof asset.source === "string" ? Buffer.byteLength(asset.source) : asset.source.byteLength;
+        }
+    }
+    return { js, css };
+}
+
+/**
+ * Sizes every route of the client bundle. `chunksByModule` indexes the
+ * output chunks by the root-relative source files they contain.
+ */
+export function createBuildSummary(
+    routes: ParsedRoute[],
+    bundle: Rollup.OutputBundle,
+    chunksByModule: Map<string, Rollup.OutputChunk[]>,
+    root: string
+): BuildSummary {
+    const chunksOf = (file: string) => chunksByModule.get(path.relative(root, file).replace(/\\/g, "/")) ?? [];
+    const closureOf = (files: string[], exclude: Set<Rollup.OutputChunk>): Set<Rollup.OutputChunk> => {
+        const chunks = new Set<Rollup.OutputChunk>();
+        for (const file of files) {
+            for (const chunk of chunksOf(file)) collectStaticChunks(chunk, bundle, chunks);
+        }
+        for (const chunk of exclude) chunks.delete(chunk);
+        return chunks;
+    };
+
+    const entryChunks = new Set<Rollup.OutputChunk>();
+    for (const output of Object.values(bundle)) {
+        if (output.type === "chunk" && output.isEntry) collectStaticChunks(output, bundle, entryChunks);
+    }
+    const shared = measure(entryChunks, bundle);
+
+    const rows = routes.map((route): RouteSizeRow => {
+        const layoutChunks = closureOf(route.layouts, entryChunks);
+        const pageChunks = closureOf([route.pagePath], new Set([...entryChunks, ...layoutChunks]));
+        const own = measure(pageChunks, bundle);
+        const layouts = measure(layoutChunks, bundle);
+        return {
+            pattern: route.pattern,
+            lazy: !chunksOf(route.pagePath).some((chunk) => entryChunks.has(chunk)),
+            js: own.js,
+            css: own.css,
+            layouts: layouts.js,
+            layoutsCss: layouts.css,
+            firstLoad: shared.js + layouts.js + own.js,
+        };
+    });
+    rows.sort((a, b) => a.pattern.localeCompare(b.pattern));
+    return { rows, shared };
+}
+
+function formatSize(bytes: number): string {
+    return bytes === 0 ? "—" : `${(bytes / 1000).toFixed(2)} kB`;
+}
+
+/**
+ * Renders the summary as a text table. Returns the lines and the routes over
+ * `budget` (in kB of first-load JS).
+ */
+export function formatBuildSummary(
+    summary: BuildSummary,
+    budget?: number
+): { lines: string[]; overBudget: RouteSizeRow[] } {
+    const limit = budget !== undefined ? budget * 1000 : undefined;
+    const overBudget = summary.rows.filter((row) => limit !== undefined && row.firstLoad > limit);
+    const table = [
+        ["Route", "Lazy", "JS", "CSS", "Layouts JS", "Layouts CSS", "First load JS"],
+        ...summary.rows.map((row) => [
+            (overBudget.includes(row) ? "! " : "  ") + row.pattern,
+            row.lazy ? "yes" : "no",
+            formatSize(row.js),
+            formatSize(row.css),
+            formatSize(row.layouts),
+            formatSize(row.layoutsCss),
+            formatSize(row.firstLoad),
+        ]),
+    ];
+    table[0]![0] = "  " + table[0]![0];
+    const widths = table[0]!.map((_, column) => Math.max(...table.map((cells) => cells[column]!.length)));
+    const lines = table.map((cells) =>
+        cells
+            .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]!) : cell.padStart(widths[column]!)))
+            .join("  ")
+            .trimEnd()
+    );
+    lines.push(
+        "",
+        `  Shared by all: ${formatSize(summary.shared.js)} JS, ${formatSize(summary.shared.css)} CSS`
+    );
+    return { lines, overBudget };
+}
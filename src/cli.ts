@@ -0,0 +1,340 @@
+#!/usr/bin/env node
+/**
+ * vite-app-router CLI
+ *
+ * Inspects an app directory without starting Vite:
+ *
+ *   vite-app-router routes [--json]   Print the resolved route tree
+ *   vite-app-router check             Report parser diagnostics (exit 1 on problems)
+ *   vite-app-router explain <url>     Show the files that handle a URL
+ *
+ * Plugin options are read from the project's Vite config when it uses the
+ * plugin; `--app-dir` overrides the app directory.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import type { Plugin, PluginOption } from 'vite';
+import {
+    collectDiagnostics,
+    createRouteManifest,
+    generateRoutesCode,
+    matchManifestRoute,
+    matchRoutePattern,
+    parseAppRouter,
+    resolveBasename,
+    type Diagnostic,
+    type PluginOptions,
+    type RouteNode,
+} from './commons/index.js';
+
+const PLUGIN_NAME = 'vite-plugin-react-app-router';
+
+const USAGE = `Usage: vite-app-router <command> [options]
+
+Commands:
+  routes            Print the resolved route tree
+  check             Report route diagnostics; exits with 1 when there are any
+  explain <url>     Show the layouts, page, boundaries, slots and intercepts for a URL
+
+Options:
+  --root <dir>      Project root (default: current directory)
+  --config <file>   Vite config file (default: auto-detected in the root)
+  --app-dir <dir>   App directory, relative to the root (default: plugin option or src/app)
+  --json            Print machine-readable JSON
+  -h, --help        Show this message
+`;
+
+interface CliContext {
+    rootDir: string;
+    appDir: string;
+    options: PluginOptions;
+    json: boolean;
+}
+
+/**
+ * Finds the plugin in a (possibly nested / async) Vite plugin list.
+ */
+async function findPlugin(plugins: PluginOption[] | undefined): Promise<Plugin | undefined> {
+    for (const entry of plugins ?? []) {
+        const plugin = await entry;
+        if (!plugin) continue;
+        if (Array.isArray(plugin)) {
+            const nested = await findPlugin(plugin);
+            if (nested) return nested;
+        } else if ((plugin as Plugin).name === PLUGIN_NAME) {
+            return plugin as Plugin;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Loads the plugin options from the project's Vite config. Projects without
+ * a config (or whose config cannot be loaded here) fall back to defaults.
+ */
+async function loadPluginOptions(rootDir: string, configFile: string | undefined): Promise<PluginOptions> {
+    let vite: typeof import('vite');
+    try {
+        vite = await import('vite');
+    } catch {
+        return {};
+    }
+    try {
+        const loaded = await vite.loadConfigFromFile(
+            { command: 'build', mode: 'production' },
+            configFile ? path.resolve(rootDir, configFile) : undefined,
+            rootDir,
+            'silent'
+        );
+        const plugin = await findPlugin(loaded?.config.plugins);
+        return (plugin?.api?.options as PluginOptions | undefined) ?? {};
+    } catch (error) {
+        if (configFile) throw error;
+        console.warn(`[${PLUGIN_NAME}] Could not load the Vite config, using default options: ${(error as Error).message}`);
+        return {};
+    }
+}
+
+function parseApp(cli: CliContext): ReturnType<typeof parseAppRouter> {
+    return parseAppRouter({ ...cli.options, appDir: cli.appDir }, undefined, cli.rootDir);
+}
+
+function relative(cli: CliContext, filePath: string): string {
+    return path.relative(cli.rootDir, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Convention files of a node, in the order they wrap each other.
+ */
+function describeNodeFiles(node: RouteNode): string[] {
+    const files: string[] = [];
+    if (node.layoutPath) files.push('layout');
+    if (node.templatePath) files.push('template');
+    if (node.loadingPath) files.push('loading');
+    if (node.errorPath) files.push('error');
+    if (node.notFoundPath) files.push('not-found');
+    if (node.loaderPath) files.push('loader');
+    if (node.actionPath) files.push('action');
+    if (node.pagePath) files.push('page');
+    for (const slot of node.slots ?? []) files.push(`@${slot.name}`);
+    return files;
+}
+
+function formatNode(node: RouteNode): string {
+    const files = describeNodeFiles(node);
+    const label = node.isGroup ? node.segment : node.path || '/';
+    const notes: string[] = [];
+    if (node.isIntercepting && node.interceptSource !== undefined) {
+        notes.push(`intercepts from ${node.interceptSource || '/'}`);
+    }
+    if (node.sharedInvocation) notes.push(`+${node.sharedInvocation.name}`);
+    return [label, files.length > 0 ? `[${files.join(', ')}]` : '', notes.length > 0 ? `(${notes.join('; ')})` : '']
+        .filter(Boolean)
+        .join(' ');
+}
+
+function printTree(nodes: RouteNode[], prefix: string): void {
+    const visible = nodes.filter((node) => !node.isSharedDef);
+    visible.forEach((node, index) => {
+        const last = index === visible.length - 1;
+        console.log(`${prefix}${last ? '└─ ' : '├─ '}${formatNode(node)}`);
+        printTree(node.children, prefix + (last ? '   ' : '│  '));
+    });
+}
+
+function runRoutes(cli: CliContext): number {
+    const { result: parsed, diagnostics } = collectDiagnostics(() => parseApp(cli));
+    if (cli.json) {
+        console.log(JSON.stringify(createRouteManifest(parsed, cli.rootDir), null, 2));
+        return 0;
+    }
+    const root: RouteNode = {
+        segment: '',
+        path: '/',
+        isDynamic: false,
+        isCatchAll: false,
+        isOptionalCatchAll: false,
+        isGroup: false,
+        children: [],
+        ...(parsed.rootLayout ? { layoutPath: parsed.rootLayout } : {}),
+        ...(parsed.rootTemplate ? { templatePath: parsed.rootTemplate } : {}),
+        ...(parsed.rootLoading ? { loadingPath: parsed.rootLoading } : {}),
+        ...(parsed.rootError ? { errorPath: parsed.rootError } : {}),
+        ...(parsed.rootNotFound ? { notFoundPath: parsed.rootNotFound } : {}),
+        ...(parsed.rootLoader ? { loaderPath: parsed.rootLoader } : {}),
+        ...(parsed.rootAction ? { actionPath: parsed.rootAction } : {}),
+        ...(parsed.rootPage ? { pagePath: parsed.rootPage } : {}),
+        ...(parsed.rootSlots && parsed.rootSlots.length > 0 ? { slots: parsed.rootSlots } : {}),
+    };
+    console.log(relative(cli, cli.appDir));
+    console.log(formatNode(root));
+    printTree(parsed.tree, '');
+    console.log(`\n${parsed.routes.length} route(s), ${parsed.intercepts.length} intercept(s)`);
+    if (diagnostics.length > 0) console.log('');
+    printDiagnostics(cli, diagnostics);
+    return 0;
+}
+
+function runCheck(cli: CliContext): number {
+    const { diagnostics } = collectDiagnostics(() => {
+        const parsed = parseApp(cli);
+        // Code generation reports its own problems (e.g. intercepts without a target).
+        generateRoutesCode(parsed.routes, {
+            rootDir: cli.rootDir,
+            lazy: cli.options.lazy !== false,
+            rootNotFound: parsed.rootNotFound,
+            intercepts: parsed.intercepts,
+            tree: parsed.tree,
+            rootLayout: parsed.rootLayout,
+            rootPage: parsed.rootPage,
+            rootError: parsed.rootError,
+            rootLoading: parsed.rootLoading,
+            rootTemplate: parsed.rootTemplate,
+            rootLoader: parsed.rootLoader,
+            rootAction: parsed.rootAction,
+            rootSlots: parsed.rootSlots,
+            basename: resolveBasename(cli.options.basename, undefined, cli.options.routerMode),
+            routerMode: cli.options.routerMode,
+        });
+        return parsed;
+    });
+
+    if (cli.json) {
+        console.log(JSON.stringify(diagnostics, null, 2));
+    } else {
+        printDiagnostics(cli, diagnostics);
+        const errors = diagnostics.filter((d) => d.severity === 'error').length;
+        console.log(
+            diagnostics.length === 0
+                ? 'No problems found.'
+                : `${errors} error(s), ${diagnostics.length - errors} warning(s)`
+        );
+    }
+    return diagnostics.length > 0 ? 1 : 0;
+}
+
+function formatDiagnostic(cli: CliContext, diagnostic: Diagnostic): string {
+    const location = diagnostic.file ? `${relative(cli, diagnostic.file)}: ` : '';
+    return `${diagnostic.severity} [${diagnostic.code}] ${location}${diagnostic.message}`;
+}
+
+/**
+ * Prints diagnostics in the format of `check`. `routes` and `explain` list
+ * the ones of their parse after their own output; with --json they are left
+ * out so stdout stays valid JSON.
+ */
+function printDiagnostics(cli: CliContext, diagnostics: Diagnostic[]): void {
+    if (cli.json) return;
+    for (const diagnostic of diagnostics) console.log(formatDiagnostic(cli, diagnostic));
+}
+
+function runExplain(cli: CliContext, url: string | undefined): number {
+    if (!url) {
+        console.error('explain: missing <url>\n');
+        console.error(USAGE);
+        return 2;
+    }
+    let pathname = new URL(url, 'http://localhost').pathname;
+    const basename = resolveBasename(cli.options.basename, undefined, cli.options.routerMode);
+    if (basename && basename !== '/' && (pathname === basename || pathname.startsWith(basename + '/'))) {
+        pathname = pathname.slice(basename.length) || '/';
+    }
+
+    const { result: parsed, diagnostics } = collectDiagnostics(() => parseApp(cli));
+    const manifest = createRouteManifest(parsed, cli.rootDir);
+    const match = matchManifestRoute(manifest, pathname);
+    const intercepts = manifest.intercepts
+        .filter((ic) => matchRoutePattern(ic.target, pathname))
+        .map((ic) => ({ source: ic.source, ...(ic.layout ? { layout: ic.layout } : {}), ...(ic.page ? { page: ic.page } : {}) }));
+
+    if (cli.json) {
+        console.log(JSON.stringify({ pathname, match: match ?? null, notFound: match ? undefined : manifest.notFound, intercepts }, null, 2));
+        return match ? 0 : 1;
+    }
+
+    const rows: [string, string | string[] | undefined][] = [['URL', pathname]];
+    if (match) {
+        const { route, params } = match;
+        const paramList = Object.entries(params).map(([name, value]) => `${name}=${JSON.stringify(value)}`);
+        rows.push(
+            ['Route', route.pattern + (paramList.length > 0 ? `  (${paramList.join(', ')})` : '')],
+            ['Layouts', route.layouts],
+            ['Templates', route.templates],
+            ['Page', route.page],
+            ['Loading', route.loading],
+            ['Error', route.error],
+            ['Not found', route.notFound],
+            ['Loaders', route.loaders],
+            ['Action', route.action],
+            ['Slots', route.slots.map((slot) => `@${slot.name} (${slot.owner}) ${slot.page ?? slot.default ?? '—'}`)],
+            ['Shared', route.sharedModules.map((shared) => `+${shared.name} at ${shared.mount}`)],
+        );
+    } else {
+        rows.push(['Route', 'no match'], ['Not found', manifest.notFound ?? 'react-router default']);
+    }
+    rows.push(['Intercepts', intercepts.map((ic) => `from ${ic.source} → ${ic.page ?? ic.layout ?? '—'}`)]);
+
+    for (const [label, value] of rows) {
+        const lines = value === undefined ? [] : Array.isArray(value) ? value : [value];
+        lines.forEach((line, index) => {
+            console.log(`${(index === 0 ? label : '').padEnd(12)}${line}`);
+        });
+        if (lines.length === 0) console.log(`${label.padEnd(12)}—`);
+    }
+    if (diagnostics.length > 0) console.log('');
+    printDiagnostics(cli, diagnostics);
+    return match ? 0 : 1;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            root: { type: 'string' },
+            config: { type: 'string' },
+            'app-dir': { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    const [command, ...args] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const rootDir = path.resolve(values.root ?? process.cwd());
+    const options = await loadPluginOptions(rootDir, values.config);
+    const appDir = path.resolve(rootDir, values['app-dir'] ?? options.appDir ?? 'src/app');
+    if (!fs.existsSync(appDir)) {
+        console.error(`[${PLUGIN_NAME}] App directory not found: ${appDir}`);
+        return 1;
+    }
+    const cli: CliContext = { rootDir, appDir, options, json: values.json ?? false };
+
+    switch (command) {
+        case 'routes':
+            return runRoutes(cli);
+        case 'check':
+            return runCheck(cli);
+        case 'explain':
+            return runExplain(cli, args[0]);
+        default:
+            console.error(`Unknown command: ${command}\n`);
+            console.error(USAGE);
+            return 2;
+    }
+}
+
+main(process.argv.slice(2)).then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error: unknown) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    }
+);
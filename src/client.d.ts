@@ -3,8 +3,22 @@
  */
 
 // @ts-ignore
-export { AppRouter, router, routes, useTemplateLink, default } from 'virtual:app-router';
-export { useSlot, useSharedModule, useSharedSlot, useSharedProps } from './runtime.js';
+export { AppRouter, router, routes, useTemplateLink, PrefetchLink, preloadRoute, routePath, useRouteParams, default } from 'virtual:app-router';
+export type {
+    RouteRegistry,
+    RoutePattern,
+    RouteParams,
+    RoutePath,
+    RouteParamsInput,
+} from 'virtual:app-router';
+export {
+    useSlot,
+    useSharedModule,
+    useSharedSlot,
+    useSharedProps,
+    useSegmentData,
+    useMetadata,
+} from './runtime.js';
 export type {
     SharedModuleInfo,
     TemplateLinkFn,
@@ -12,4 +26,12 @@ export type {
     TemplateLinkOptions,
     TemplateInvocation,
     TemplateRegistry,
+    SegmentData,
+    Metadata,
+    ResolvedMetadata,
+    MetadataProps,
+    OpenGraphMetadata,
+    OpenGraphImage,
+    PrefetchBehavior,
+    PrefetchLinkProps,
 } from './runtime.js';
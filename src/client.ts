@@ -17,10 +17,24 @@
  */
 
 // Re-export from virtual module
-export { AppRouter, router, routes, useTemplateLink, default } from 'virtual:app-router';
+export { AppRouter, router, routes, useTemplateLink, PrefetchLink, preloadRoute, routePath, useRouteParams, default } from 'virtual:app-router';
+export type {
+    RouteRegistry,
+    RoutePattern,
+    RouteParams,
+    RoutePath,
+    RouteParamsInput,
+} from 'virtual:app-router';
 
 // Public runtime helpers
-export { useSlot, useSharedModule, useSharedSlot, useSharedProps } from './runtime.js';
+export {
+    useSlot,
+    useSharedModule,
+    useSharedSlot,
+    useSharedProps,
+    useSegmentData,
+    useMetadata,
+} from './runtime.js';
 export type {
     SharedModuleInfo,
     TemplateLinkFn,
@@ -28,4 +42,12 @@ export type {
     TemplateLinkOptions,
     TemplateInvocation,
     TemplateRegistry,
+    SegmentData,
+    Metadata,
+    ResolvedMetadata,
+    MetadataProps,
+    OpenGraphMetadata,
+    OpenGraphImage,
+    PrefetchBehavior,
+    PrefetchLinkProps,
 } from './runtime.js';
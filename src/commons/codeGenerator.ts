@@ -7,8 +7,10 @@
 
 import * as t from '@babel/types';
 import _generate from '@babel/generator';
-import type { ParsedRoute, InterceptedRoute, RouteNode, ParallelSlot } from './types.js';
+import type { ParsedRoute, InterceptedRoute, RouteNode, ParallelSlot, RouterMode } from './types.js';
 import { pathToIdentifier } from './routeParser.js';
+import { checkRouteModuleExports, hasMetadataExport, type RouteModuleKind } from './routeModuleExports.js';
+import { reportDiagnostic } from './diagnostics.js';
 
 /** State key on history.state used to signal an intercepted navigation. */
 const BACKGROUND_LOCATION_KEY = 'appRouterBackgroundLocation';
@@ -22,6 +24,41 @@ const BACKGROUND_LOCATION_KEY = 'appRouterBackgroundLocation';
  */
 const ANY_SOURCE_KEY = 'appRouterAnySource';
 
+/**
+ * Runtime helpers re-exported from the virtual module so consumers can pull
+ * them from `virtual:app-router` alongside AppRouter / useTemplateLink.
+ */
+const RUNTIME_REEXPORTS = [
+    'useSlot',
+    'useSharedModule',
+    'useSharedSlot',
+    'useSharedProps',
+    'routePath',
+    'useRouteParams',
+    'useSegmentData',
+    'useMetadata',
+];
+
+/** Data router factory used by each router mode. */
+const ROUTER_FACTORIES: Record<RouterMode, string> = {
+    browser: 'createBrowserRouter',
+    hash: 'createHashRouter',
+    memory: 'createMemoryRouter',
+};
+
+/** Declarative router component used by each router mode (intercept mode). */
+const ROUTER_COMPONENTS: Record<RouterMode, string> = {
+    browser: 'BrowserRouter',
+    hash: 'HashRouter',
+    memory: 'MemoryRouter',
+};
+
+/**
+ * Attribute set on the root container of prerendered pages; `createAppRoot`
+ * hydrates instead of rendering from scratch when it is present.
+ */
+export const PRERENDERED_ATTR = 'data-prerendered';
+
 // Handle both ESM and CJS default exports
 const generate = typeof _generate === 'function' ? _generate : (_generate as { default: typeof _generate }).default;
 
@@ -92,6 +129,46 @@ function createLazyImport(name: string, path: string): t.VariableDeclaration {
     ]);
 }
 
+/**
+ * Creates a preload function and the lazy component loaded through it
+ * const preloadComponentName = () => import('/path');
+ * const ComponentName = lazy(preloadComponentName);
+ */
+function createPreloadableLazyImport(
+    name: string,
+    preloadName: string,
+    path: string
+): t.VariableDeclaration[] {
+    return [
+        t.variableDeclaration('const', [
+            t.variableDeclarator(
+                t.identifier(preloadName),
+                t.arrowFunctionExpression(
+                    [],
+                    t.callExpression(t.identifier('import'), [t.stringLiteral(`/${path}`)])
+                )
+            ),
+        ]),
+        t.variableDeclaration('const', [
+            t.variableDeclarator(
+                t.identifier(name),
+                t.callExpression(t.identifier('lazy'), [t.identifier(preloadName)])
+            ),
+        ]),
+    ];
+}
+
+/**
+ * Creates a namespace import declaration
+ * import * as Name from '/path';
+ */
+function createNamespaceImport(name: string, path: string): t.ImportDeclaration {
+    return t.importDeclaration(
+        [t.importNamespaceSpecifier(t.identifier(name))],
+        t.stringLiteral(`/${path}`)
+    );
+}
+
 /**
  * Creates a createElement call expression
  * @param component - Component identifier (like 'Suspense') or string literal for HTML elements (like 'div')
@@ -134,6 +211,18 @@ function createSuspenseWrapper(
     return createCreateElementCallExpression(componentName, t.nullLiteral(), []);
 }
 
+/**
+ * Creates the `export { ... } from 'vite-plugin-react-app-router/runtime'`
+ * statement for RUNTIME_REEXPORTS
+ */
+function buildRuntimeReExport(): t.ExportNamedDeclaration {
+    return t.exportNamedDeclaration(
+        null,
+        RUNTIME_REEXPORTS.map((name) => t.exportSpecifier(t.identifier(name), t.identifier(name))),
+        t.stringLiteral('vite-plugin-react-app-router/runtime')
+    );
+}
+
 /**
  * Creates a route object expression
  */
@@ -169,7 +258,8 @@ function collectImports(
     rootDir: string,
     lazy: boolean,
     rootNotFound?: string,
-    intercepts: InterceptedRoute[] = []
+    intercepts: InterceptedRoute[] = [],
+    routerMode: RouterMode = 'browser'
 ): CollectedImports {
     const statements: t.Statement[] = [];
     const componentMap = new Map<string, string>();
@@ -195,7 +285,7 @@ function collectImports(
     //   - regular mode  → createBrowserRouter + RouterProvider (data router)
     const rrSpecifiers: t.ImportSpecifier[] = [createNamedImport('Outlet')];
     if (hasIntercepts) {
-        rrSpecifiers.push(createNamedImport('BrowserRouter'));
+        rrSpecifiers.push(createNamedImport(ROUTER_COMPONENTS[routerMode]));
         rrSpecifiers.push(createNamedImport('useRoutes'));
         rrSpecifiers.push(createNamedImport('useLocation'));
         rrSpecifiers.push(createNamedImport('matchPath'));
@@ -205,7 +295,7 @@ function collectImports(
         rrSpecifiers.push(createNamedImport('Routes'));
         rrSpecifiers.push(createNamedImport('Route'));
     } else {
-        rrSpecifiers.push(createNamedImport('createBrowserRouter'));
+        rrSpecifiers.push(createNamedImport(ROUTER_FACTORIES[routerMode]));
         rrSpecifiers.push(createNamedImport('RouterProvider'));
     }
     statements.push(createImportDeclaration(rrSpecifiers, 'react-router-dom'));
@@ -528,8 +618,79 @@ export interface CodeGeneratorOptions {
     rootError?: string;
     /** Root loading.tsx absolute path */
     rootLoading?: string;
+    /** Root template.tsx absolute path */
+    rootTemplate?: string;
+    /** Root loader.ts absolute path */
+    rootLoader?: string;
+    /** Root action.ts absolute path */
+    rootAction?: string;
     /** Parallel-route slots owned by the app root segment. */
     rootSlots?: ParallelSlot[];
+    /** Router basename (see PluginOptions.basename), already normalised. */
+    basename?: string;
+    /** Router flavour (default: 'browser'). */
+    routerMode?: RouterMode;
+    /**
+     * URLs accepted by pages exporting `dynamicParams = false`, keyed by
+     * route pattern — the output of their `generateStaticParams()`, filled in
+     * by the prerender step. Any other URL renders the nearest not-found.tsx.
+     */
+    staticParams?: Record<string, string[]>;
+    /**
+     * Prerendering is enabled: in the 'browser' router mode the client
+     * flavours export `createAppRoot`, which hydrates prerendered pages.
+     */
+    prerender?: boolean;
+    /**
+     * Generate the server flavour loaded by the prerender bundle: the route
+     * objects are unchanged, but no router instance is created at module
+     * load (there is no browser history to attach it to).
+     */
+    ssr?: boolean;
+    /**
+     * Dev server only: make the module accept its own hot updates and swap
+     * the new route table into the live router instead of reloading the page.
+     */
+    hmr?: boolean;
+}
+
+/**
+ * Resolves the router basename from the plugin option, falling back to the
+ * resolved Vite `base` in 'browser' mode. Returns undefined when the app is
+ * served at the root or when `base` is relative (`./`) or a full URL — those
+ * describe where the assets live, not a path prefix the router can strip.
+ * Hash and memory routers never see the document path, so `base` does not
+ * apply to them.
+ */
+export function resolveBasename(
+    basename: string | undefined,
+    viteBase: string | undefined,
+    routerMode: RouterMode = 'browser'
+): string | undefined {
+    let raw: string | undefined;
+    if (basename !== undefined) {
+        raw = basename.startsWith('/') ? basename : '/' + basename;
+    } else if (routerMode === 'browser' && viteBase && viteBase.startsWith('/')) {
+        raw = viteBase;
+    }
+    const trimmed = raw?.replace(/\/+$/, '');
+    return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Builds the `{ basename }` argument shared by the router factory and the
+ * intercept-mode router component, or undefined when no basename is set.
+ */
+function createBasenameOptions(basename: string | undefined): t.ObjectExpression | undefined {
+    if (!basename) return undefined;
+    return t.objectExpression([
+        t.objectProperty(t.identifier('basename'), t.stringLiteral(basename)),
+    ]);
+}
+
+interface StaticParamsGuard {
+    paths: string[];
+    notFoundName?: string;
 }
 
 /**
@@ -538,6 +699,8 @@ export interface CodeGeneratorOptions {
 interface BuilderCtx {
     componentMap: Map<string, string>;
     layoutMap: Map<string, string>;
+    /** Map of `template.tsx` absolute path → import name. */
+    templateMap: Map<string, string>;
     loadingMap: Map<string, string>;
     errorMap: Map<string, string>;
     notFoundMap: Map<string, string>;
@@ -545,7 +708,27 @@ interface BuilderCtx {
     defaultMap: Map<string, string>;
     /** Map of `props.tsx` absolute path → import name (eager default import). */
     sharedPropsMap: Map<string, string>;
+    /** Map of `loader.ts` absolute path → import name (eager default import). */
+    loaderMap: Map<string, string>;
+    /** Map of `action.ts` absolute path → import name (eager default import). */
+    actionMap: Map<string, string>;
+    /**
+     * Pages/layouts exporting `metadata` or `generateMetadata`: absolute path →
+     * module import path (lazy) or namespace import name (eager).
+     */
+    metadataMap: Map<string, string>;
+    /**
+     * Pages restricted to their generated params (`dynamicParams = false`):
+     * route pattern → allowed URLs + nearest not-found import name.
+     */
+    staticParamsGuards: Map<string, StaticParamsGuard>;
     lazy: boolean;
+    /**
+     * True when the routes are served by a data router (createBrowserRouter).
+     * Segment loaders and actions are only wired in that case — useRoutes()
+     * ignores them.
+     */
+    dataRouter: boolean;
 }
 
 /**
@@ -678,6 +861,88 @@ function pickLoading(
     return path ? ctx.loadingMap.get(path) : undefined;
 }
 
+/**
+ * Wraps a page/layout element in a MetadataBoundary when its module exports
+ * `metadata` or `generateMetadata`. Lazy builds hand the boundary the same
+ * dynamic import as the component (served from the same chunk); eager builds
+ * pass the module namespace.
+ */
+function withMetadataBoundary(
+    element: t.Expression,
+    modulePath: string,
+    ctx: BuilderCtx
+): t.Expression {
+    const ref = ctx.metadataMap.get(modulePath);
+    if (!ref) return element;
+    const source = ctx.lazy
+        ? t.arrowFunctionExpression(
+            [],
+            t.callExpression(t.identifier('import'), [t.stringLiteral(`/${ref}`)])
+        )
+        : t.identifier(ref);
+    return createCreateElementCallExpression(
+        'MetadataBoundary',
+        t.objectExpression([t.objectProperty(t.identifier('source'), source)]),
+        [element]
+    );
+}
+
+/**
+ * Wraps a page element in a StaticParamsGuard when the page opted out of
+ * dynamic params and the prerender step recorded its allowed URLs.
+ */
+function withStaticParamsGuard(
+    element: t.Expression,
+    pattern: string,
+    ctx: BuilderCtx
+): t.Expression {
+    const guard = ctx.staticParamsGuards.get(pattern);
+    if (!guard) return element;
+    const props = [
+        t.objectProperty(
+            t.identifier('paths'),
+            t.arrayExpression(guard.paths.map((p) => t.stringLiteral(p)))
+        ),
+    ];
+    if (guard.notFoundName) {
+        props.push(
+            t.objectProperty(
+                t.identifier('fallback'),
+                createSuspenseWrapper(guard.notFoundName, ctx.lazy)
+            )
+        );
+    }
+    return createCreateElementCallExpression('StaticParamsGuard', t.objectExpression(props), [element]);
+}
+
+/**
+ * Resolves the guards for `staticParams` patterns: each page keeps its list
+ * of URLs and picks up the closest not-found.tsx among its segment and
+ * ancestors (the root one included).
+ */
+function collectStaticParamsGuards(
+    tree: RouteNode[],
+    staticParams: Record<string, string[]>,
+    rootNotFound: string | undefined,
+    notFoundMap: Map<string, string>
+): Map<string, StaticParamsGuard> {
+    const guards = new Map<string, StaticParamsGuard>();
+    function walk(node: RouteNode, inheritedNotFound: string | undefined): void {
+        if (node.isIntercepting) return;
+        const notFound = node.notFoundPath || inheritedNotFound;
+        const paths = node.pagePath ? staticParams[node.path] : undefined;
+        if (paths && !guards.has(node.path)) {
+            guards.set(node.path, {
+                paths,
+                notFoundName: notFound ? notFoundMap.get(notFound) : undefined,
+            });
+        }
+        for (const child of node.children) walk(child, notFound);
+    }
+    for (const node of tree) walk(node, rootNotFound);
+    return guards;
+}
+
 /**
  * Builds the page route node for a given segment. Pattern is taken from
  * `node.path`, which is already absolute-relative-to-root (e.g. "dashboard/x").
@@ -704,7 +969,15 @@ function makePageNode(
     // Pages no longer wrap themselves with an intercept resolver — the
     // BrowserRouter+useRoutes mode handles interception at the InnerRouter
     // level so the BG outlet stays mounted as the same React subtree.
-    const pageElement: t.Expression = createSuspenseWrapper(pageName, ctx.lazy, loadingName);
+    const pageElement: t.Expression = withStaticParamsGuard(
+        withMetadataBoundary(
+            createSuspenseWrapper(pageName, ctx.lazy, loadingName),
+            node.pagePath,
+            ctx
+        ),
+        node.path,
+        ctx
+    );
 
     if (useIndex) {
         return createRouteObject([
@@ -743,6 +1016,78 @@ function makeErrorWrapper(
     ]);
 }
 
+/**
+ * Attaches a segment's `loader.ts` to the outermost route object it emits:
+ * adds `id` + `loader`, and wraps the element in a SegmentDataProvider so the
+ * layout, the page and descendant segments can read the data through
+ * useSegmentData() (react-router's useLoaderData only sees the route the
+ * component itself is rendered by).
+ */
+function withSegmentLoader(
+    routeObject: t.ObjectExpression,
+    node: RouteNode,
+    loaderName: string | undefined
+): t.ObjectExpression {
+    if (!loaderName) return routeObject;
+    const routeId = `${node.path || '/'}#${loaderName}`;
+    for (const prop of routeObject.properties) {
+        if (
+            t.isObjectProperty(prop) &&
+            t.isIdentifier(prop.key, { name: 'element' }) &&
+            t.isExpression(prop.value)
+        ) {
+            prop.value = createCreateElementCallExpression(
+                'SegmentDataProvider',
+                t.objectExpression([
+                    t.objectProperty(t.identifier('routeId'), t.stringLiteral(routeId)),
+                ]),
+                [prop.value]
+            );
+        }
+    }
+    routeObject.properties.unshift(createRouteProperty('id', t.stringLiteral(routeId)));
+    routeObject.properties.push(createRouteProperty('loader', t.identifier(loaderName)));
+    return routeObject;
+}
+
+/**
+ * Attaches a segment's `action.ts` to a route object. A <Form> without an
+ * explicit `action` submits to the route it is rendered by, so the action is
+ * set on the segment's page route and on its layout route (see buildSubtree).
+ */
+function withSegmentAction(
+    routeObject: t.ObjectExpression,
+    actionName: string | undefined
+): t.ObjectExpression {
+    if (!actionName) return routeObject;
+    routeObject.properties.push(createRouteProperty('action', t.identifier(actionName)));
+    return routeObject;
+}
+
+/**
+ * Wraps a list of children in a pathless template node. The template renders
+ * inside a TemplateBoundary keyed by the pathname, so unlike a layout it is
+ * remounted on every navigation within the segment.
+ */
+function makeTemplateNode(
+    templatePath: string,
+    inheritedLoading: string | undefined,
+    children: t.ObjectExpression[],
+    ctx: BuilderCtx
+): t.ObjectExpression {
+    const templateName = ctx.templateMap.get(templatePath)!;
+    const loadingName = pickLoading(undefined, inheritedLoading, ctx);
+    return createRouteObject([
+        createRouteProperty(
+            'element',
+            createCreateElementCallExpression('TemplateBoundary', t.nullLiteral(), [
+                createSuspenseWrapper(templateName, ctx.lazy, loadingName),
+            ])
+        ),
+        createRouteProperty('children', t.arrayExpression(children)),
+    ]);
+}
+
 /**
  * Wraps a list of children in a layout node. Root layout gets `path: '/'`.
  */
@@ -759,7 +1104,11 @@ function makeLayoutNode(
 ): t.ObjectExpression {
     const layoutName = ctx.layoutMap.get(layoutPath)!;
     const loadingName = pickLoading(undefined, inheritedLoading, ctx);
-    let element: t.Expression = createSuspenseWrapper(layoutName, ctx.lazy, loadingName);
+    let element: t.Expression = withMetadataBoundary(
+        createSuspenseWrapper(layoutName, ctx.lazy, loadingName),
+        layoutPath,
+        ctx
+    );
     if (slotsExpr) {
         // <SlotProvider slots={…}>{<Suspense>…<Layout/>…</Suspense>}</SlotProvider>
         element = createCreateElementCallExpression(
@@ -802,11 +1151,15 @@ function makeLayoutNode(
  *
  * If the segment has its own error.tsx, the accumulated children are wrapped
  * in an Outlet+errorElement boundary so the boundary lands inside the layout
- * of the same segment (matching Next.js).
+ * of the same segment (matching Next.js). A template.tsx wraps that boundary,
+ * still inside the layout.
  *
  * If the segment has its own layout.tsx, the result becomes a single layout
  * node; otherwise the children are returned as a flat list to be spread in
- * the parent.
+ * the parent. A segment `loader.ts` lands on that outermost node (a pathless
+ * Outlet wrapper is synthesised when there is no layout), so it runs for the
+ * segment's page and every descendant. A segment `action.ts` lands on the page
+ * node and on the layout node, the routes whose <Form>s submit to it.
  */
 function buildSubtree(
     node: RouteNode,
@@ -831,16 +1184,23 @@ function buildSubtree(
     const wrapsInLayoutLikeNode = !!node.layoutPath || hasSlots;
     const childrenInsideLayout = insideLayout || wrapsInLayoutLikeNode;
 
+    const actionName = ctx.dataRouter && node.actionPath
+        ? ctx.actionMap.get(node.actionPath)
+        : undefined;
+
     const inner: t.ObjectExpression[] = [];
 
     if (node.pagePath) {
         inner.push(
-            makePageNode(
-                { path: node.path, pagePath: node.pagePath },
-                localLoading,
-                ctx,
-                childrenInsideLayout,
-                subtreeRoot
+            withSegmentAction(
+                makePageNode(
+                    { path: node.path, pagePath: node.pagePath },
+                    localLoading,
+                    ctx,
+                    childrenInsideLayout,
+                    subtreeRoot
+                ),
+                actionName
             )
         );
     }
@@ -885,6 +1245,12 @@ function buildSubtree(
         wrapped = [makeErrorWrapper(node.errorPath, wrapped, ctx)];
     }
 
+    // template.tsx sits between the layout and the error boundary, like in
+    // Next.js (Layout > Template > ErrorBoundary > Page).
+    if (node.templatePath) {
+        wrapped = [makeTemplateNode(node.templatePath, inheritedLoading, wrapped, ctx)];
+    }
+
     // Build the slots prop expression once — used for both the real-layout
     // and synthetic-outlet branches below.
     let slotsExpr: t.Expression | undefined;
@@ -922,26 +1288,41 @@ function buildSubtree(
         if (propsName) sharedPropsExpr = t.identifier(propsName);
     }
 
+    const loaderName = ctx.dataRouter && node.loaderPath
+        ? ctx.loaderMap.get(node.loaderPath)
+        : undefined;
+
     if (node.layoutPath) {
         return [
-            makeLayoutNode(
-                node.layoutPath,
-                inheritedLoading,
-                wrapped,
-                ctx,
-                isRoot,
-                subtreeRoot,
-                slotsExpr,
-                sharedInfoExpr,
-                sharedPropsExpr
+            withSegmentAction(
+                withSegmentLoader(
+                    makeLayoutNode(
+                        node.layoutPath,
+                        inheritedLoading,
+                        wrapped,
+                        ctx,
+                        isRoot,
+                        subtreeRoot,
+                        slotsExpr,
+                        sharedInfoExpr,
+                        sharedPropsExpr
+                    ),
+                    node,
+                    loaderName
+                ),
+                actionName
             ),
         ];
     }
 
-    if (hasSlots || sharedInfoExpr || sharedPropsExpr) {
+    // Without a page nor a layout, the action needs a route of its own.
+    const actionWithoutRoute = !!actionName && !node.pagePath;
+
+    if (hasSlots || sharedInfoExpr || sharedPropsExpr || loaderName || actionWithoutRoute) {
         // No layout, but the segment needs a wrapping element to host either a
-        // SlotProvider (parallel routes) or a SharedModuleProvider (shared
-        // module invocation without its own layout). Synthesise an Outlet so
+        // SlotProvider (parallel routes), a SharedModuleProvider (shared
+        // module invocation without its own layout), a segment loader or an
+        // action with no page to carry it. Synthesise an Outlet so
         // descendants render normally.
         let wrappedEl: t.Expression = createCreateElementCallExpression(
             'Outlet',
@@ -975,7 +1356,12 @@ function buildSubtree(
         }
         props.push(createRouteProperty('element', wrappedEl));
         props.push(createRouteProperty('children', t.arrayExpression(wrapped)));
-        return [createRouteObject(props)];
+        return [
+            withSegmentAction(
+                withSegmentLoader(createRouteObject(props), node, loaderName),
+                actionWithoutRoute ? actionName : undefined
+            ),
+        ];
     }
 
     // No layout, no slots, no shared-module wrapping: pass children up.
@@ -1007,6 +1393,7 @@ function buildSlotsObject(
             isGroup: false,
             children: slot.tree,
             ...(slot.layoutPath ? { layoutPath: slot.layoutPath } : {}),
+            ...(slot.templatePath ? { templatePath: slot.templatePath } : {}),
             ...(slot.pagePath ? { pagePath: slot.pagePath } : {}),
             ...(slot.errorPath ? { errorPath: slot.errorPath } : {}),
             ...(slot.loadingPath ? { loadingPath: slot.loadingPath } : {}),
@@ -1019,7 +1406,17 @@ function buildSlotsObject(
         // isRoot=false so any wrapping slot layout stays *pathless* — that
         // way useRoutes returns null when no descendant matches and the
         // SlotRenderer falls through to defaultElement.
-        const slotRoutes = buildSubtree(slotVirtualRoot, undefined, ctx, false, false, '/');
+        // Slot tables never reach the data router, so segment loaders and
+        // actions inside them are not wired. Slot metadata is skipped too: the
+        // document head follows the main page.
+        const slotRoutes = buildSubtree(
+            slotVirtualRoot,
+            undefined,
+            { ...ctx, dataRouter: false, metadataMap: new Map(), staticParamsGuards: new Map() },
+            false,
+            false,
+            '/'
+        );
 
         const definitionProps: t.ObjectProperty[] = [
             t.objectProperty(t.identifier('routes'), t.arrayExpression(slotRoutes)),
@@ -1047,6 +1444,7 @@ function buildSlotsObject(
 interface CollectedPaths {
     pages: string[];
     layouts: string[];
+    templates: string[];
     loadings: string[];
     errors: string[];
     notFounds: string[];
@@ -1054,36 +1452,50 @@ interface CollectedPaths {
     defaults: string[];
     /** `props.tsx` declared at shared-module invocation sites. */
     sharedProps: string[];
+    /** `loader.ts` data loaders of route segments. */
+    loaders: string[];
+    /** `action.ts` form actions of route segments. */
+    actions: string[];
 }
 
 function collectPathsFromTree(
     tree: RouteNode[],
     rootInfo: {
         layoutPath?: string;
+        templatePath?: string;
         pagePath?: string;
         loadingPath?: string;
         errorPath?: string;
         notFoundPath?: string;
+        loaderPath?: string;
+        actionPath?: string;
     },
     rootSlots?: ParallelSlot[]
 ): CollectedPaths {
     const pages: string[] = [];
     const layouts: string[] = [];
+    const templates: string[] = [];
     const loadings: string[] = [];
     const errors: string[] = [];
     const notFounds: string[] = [];
     const defaults: string[] = [];
     const sharedProps: string[] = [];
+    const loaders: string[] = [];
+    const actions: string[] = [];
 
     if (rootInfo.pagePath) pages.push(rootInfo.pagePath);
     if (rootInfo.layoutPath) layouts.push(rootInfo.layoutPath);
+    if (rootInfo.templatePath) templates.push(rootInfo.templatePath);
     if (rootInfo.loadingPath) loadings.push(rootInfo.loadingPath);
     if (rootInfo.errorPath) errors.push(rootInfo.errorPath);
     if (rootInfo.notFoundPath) notFounds.push(rootInfo.notFoundPath);
+    if (rootInfo.loaderPath) loaders.push(rootInfo.loaderPath);
+    if (rootInfo.actionPath) actions.push(rootInfo.actionPath);
 
     function walkSlot(slot: ParallelSlot): void {
         if (slot.pagePath) pages.push(slot.pagePath);
         if (slot.layoutPath) layouts.push(slot.layoutPath);
+        if (slot.templatePath) templates.push(slot.templatePath);
         if (slot.loadingPath) loadings.push(slot.loadingPath);
         if (slot.errorPath) errors.push(slot.errorPath);
         if (slot.notFoundPath) notFounds.push(slot.notFoundPath);
@@ -1098,17 +1510,39 @@ function collectPathsFromTree(
         // routeDefinitions (buildSubtree filters them out by node identity).
         if (node.pagePath) pages.push(node.pagePath);
         if (node.layoutPath) layouts.push(node.layoutPath);
+        if (node.templatePath) templates.push(node.templatePath);
         if (node.loadingPath) loadings.push(node.loadingPath);
         if (node.errorPath) errors.push(node.errorPath);
         if (node.notFoundPath) notFounds.push(node.notFoundPath);
         if (node.sharedPropsPath) sharedProps.push(node.sharedPropsPath);
+        if (node.loaderPath) loaders.push(node.loaderPath);
+        if (node.actionPath) actions.push(node.actionPath);
         if (node.slots) for (const s of node.slots) walkSlot(s);
         for (const c of node.children) walk(c);
     }
     for (const n of tree) walk(n);
     if (rootSlots) for (const s of rootSlots) walkSlot(s);
 
-    return { pages, layouts, loadings, errors, notFounds, defaults, sharedProps };
+    return { pages, layouts, templates, loadings, errors, notFounds, defaults, sharedProps, loaders, actions };
+}
+
+/**
+ * Validates the exports of every rendered route module once, however many
+ * routes share it.
+ */
+function checkCollectedRouteModules(paths: CollectedPaths): void {
+    const modules = new Map<string, RouteModuleKind>();
+    const add = (files: string[], kind: RouteModuleKind) => {
+        for (const file of files) if (!modules.has(file)) modules.set(file, kind);
+    };
+    add(paths.pages, 'page');
+    add(paths.layouts, 'layout');
+    add(paths.templates, 'template');
+    add(paths.loadings, 'loading');
+    add(paths.errors, 'error');
+    add(paths.notFounds, 'not-found');
+    add(paths.defaults, 'default');
+    for (const [file, kind] of modules) checkRouteModuleExports(file, kind);
 }
 
 /**
@@ -1122,25 +1556,43 @@ function collectImportsFromPaths(
     intercepts: InterceptedRoute[],
     hasSlots: boolean,
     hasSharedInvocations: boolean,
-    hasSharedProps: boolean
+    hasSharedProps: boolean,
+    hasLoaders: boolean,
+    hasActions: boolean,
+    hasStaticParamsGuards: boolean,
+    routerMode: RouterMode
 ): {
     statements: t.Statement[];
     componentMap: Map<string, string>;
     layoutMap: Map<string, string>;
+    templateMap: Map<string, string>;
     loadingMap: Map<string, string>;
     errorMap: Map<string, string>;
     notFoundMap: Map<string, string>;
     defaultMap: Map<string, string>;
     sharedPropsMap: Map<string, string>;
+    loaderMap: Map<string, string>;
+    actionMap: Map<string, string>;
+    metadataMap: Map<string, string>;
+    preloadMap: Map<string, string>;
 } {
     const statements: t.Statement[] = [];
     const componentMap = new Map<string, string>();
     const layoutMap = new Map<string, string>();
+    const templateMap = new Map<string, string>();
     const loadingMap = new Map<string, string>();
     const errorMap = new Map<string, string>();
     const notFoundMap = new Map<string, string>();
     const defaultMap = new Map<string, string>();
     const sharedPropsMap = new Map<string, string>();
+    const loaderMap = new Map<string, string>();
+    const actionMap = new Map<string, string>();
+    const metadataMap = new Map<string, string>();
+    // Lazy component name → its preload function (`preload<Name>`).
+    const preloadMap = new Map<string, string>();
+
+    // Pages/layouts whose module declares `metadata`/`generateMetadata`.
+    const metadataPaths = [...new Set([...paths.pages, ...paths.layouts])].filter(hasMetadataExport);
 
     const hasIntercepts = intercepts.length > 0;
 
@@ -1152,28 +1604,39 @@ function collectImportsFromPaths(
         // useRoutes() against a per-intercept routes table (built by
         // buildInterceptsArray) so route params and layouts work the same
         // way they do for canonical routes.
-        rrSpecifiers.push(createNamedImport('BrowserRouter'));
+        rrSpecifiers.push(createNamedImport(ROUTER_COMPONENTS[routerMode]));
         rrSpecifiers.push(createNamedImport('useRoutes'));
         rrSpecifiers.push(createNamedImport('useLocation'));
         rrSpecifiers.push(createNamedImport('matchPath'));
     } else {
-        rrSpecifiers.push(createNamedImport('createBrowserRouter'));
+        rrSpecifiers.push(createNamedImport(ROUTER_FACTORIES[routerMode]));
         rrSpecifiers.push(createNamedImport('RouterProvider'));
     }
     statements.push(createImportDeclaration(rrSpecifiers, 'react-router-dom'));
 
     // Pull runtime providers from the package — SlotProvider (parallel routes),
     // SharedModuleProvider (shared route modules), SharedPropsProvider
-    // (props.tsx forwarding), and createUseTemplateLink (template-link hook
-    // factory). One import statement when any are in use.
+    // (props.tsx forwarding), SegmentDataProvider (loader.ts),
+    // TemplateBoundary (template.tsx), MetadataBoundary (metadata exports),
+    // StaticParamsGuard (`dynamicParams = false`), createUseTemplateLink (template-link hook factory),
+    // createRoutePreloader / createPrefetchLink (route prefetching) and
+    // preloadMatchedBranches / useMatchedBranchPreload (parallel lazy loading). One import
+    // statement when any are in use.
     {
         const specs: t.ImportSpecifier[] = [];
         if (hasSlots) specs.push(createNamedImport('SlotProvider'));
         if (hasSharedInvocations) specs.push(createNamedImport('SharedModuleProvider'));
         if (hasSharedProps) specs.push(createNamedImport('SharedPropsProvider'));
+        if (hasLoaders) specs.push(createNamedImport('SegmentDataProvider'));
+        if (paths.templates.length > 0) specs.push(createNamedImport('TemplateBoundary'));
+        if (metadataPaths.length > 0) specs.push(createNamedImport('MetadataBoundary'));
+        if (hasStaticParamsGuards) specs.push(createNamedImport('StaticParamsGuard'));
         // Always import — `useTemplateLink` is exported from every virtual
         // module so consumers can call it even before any +shared/ exists.
         specs.push(createNamedImport('createUseTemplateLink'));
+        specs.push(createNamedImport('createRoutePreloader'));
+        specs.push(createNamedImport('createPrefetchLink'));
+        if (lazy) specs.push(createNamedImport(hasIntercepts ? 'useMatchedBranchPreload' : 'preloadMatchedBranches'));
         statements.push(
             createImportDeclaration(specs, 'vite-plugin-react-app-router/runtime')
         );
@@ -1231,7 +1694,9 @@ function collectImportsFromPaths(
             const name = uniqueName(prefix, safe, i++);
             const importPath = normalizeImportPath(p, rootDir);
             if (lazy) {
-                statements.push(createLazyImport(name, importPath));
+                const preloadName = `preload${name}`;
+                statements.push(...createPreloadableLazyImport(name, preloadName, importPath));
+                preloadMap.set(name, preloadName);
             } else {
                 statements.push(
                     createImportDeclaration([createDefaultImport(name)], `/${importPath}`)
@@ -1244,7 +1709,10 @@ function collectImportsFromPaths(
     /**
      * Emit eager default imports (never lazy). Used for `props.tsx` modules
      * since their values are read synchronously when wrapping the subtree —
-     * a Promise from React.lazy would not be a usable props object.
+     * a Promise from React.lazy would not be a usable props object — for
+     * `loader.ts`/`action.ts`, which react-router calls as plain functions,
+     * and for `loading.tsx`: a lazy Suspense fallback would need its own
+     * download before it could show anything.
      */
     function emitEager(prefix: string, kind: Map<string, string>, paths: string[]): void {
         let i = 0;
@@ -1264,11 +1732,27 @@ function collectImportsFromPaths(
 
     emit('Page', componentMap, paths.pages);
     emit('Layout', layoutMap, paths.layouts);
-    emit('Loading', loadingMap, paths.loadings);
+    emit('Template', templateMap, paths.templates);
+    emitEager('Loading', loadingMap, paths.loadings);
     emit('ErrorBoundary', errorMap, paths.errors);
     emit('NotFound', notFoundMap, paths.notFounds);
     emit('Default', defaultMap, paths.defaults);
     emitEager('SharedProps', sharedPropsMap, paths.sharedProps);
+    if (hasLoaders) emitEager('Loader', loaderMap, paths.loaders);
+    if (hasActions) emitEager('Action', actionMap, paths.actions);
+
+    // Metadata sources: lazy builds re-use the component's dynamic import, so
+    // only the import path is recorded; eager builds need the namespace.
+    metadataPaths.forEach((p, i) => {
+        const importPath = normalizeImportPath(p, rootDir);
+        if (lazy) {
+            metadataMap.set(p, importPath);
+        } else {
+            const name = uniqueName('Metadata', safeIdent(p), i);
+            statements.push(createNamespaceImport(name, importPath));
+            metadataMap.set(p, name);
+        }
+    });
 
     // Intercept subtrees ride on the canonical maps — collectPathsFromTree
     // walks intercepting nodes too, so their pages/layouts/loadings already
@@ -1280,14 +1764,70 @@ function collectImportsFromPaths(
         statements,
         componentMap,
         layoutMap,
+        templateMap,
         loadingMap,
         errorMap,
         notFoundMap,
         defaultMap,
         sharedPropsMap,
+        loaderMap,
+        actionMap,
+        metadataMap,
+        preloadMap,
     };
 }
 
+/**
+ * Adds `preload: [preloadX, ...]` to every route object whose own elements
+ * render lazy components, so `preloadRoute()` can start the downloads of a
+ * matched branch. Child routes get their own list; slot route tables (nested
+ * route objects inside an element) are left out — they only render once
+ * their owner is on screen.
+ */
+function attachRoutePreloads(routeObjects: t.Node[], preloadMap: Map<string, string>): void {
+    for (const route of routeObjects) {
+        if (!t.isObjectExpression(route)) continue;
+        const preloads = new Set<string>();
+        for (const property of route.properties) {
+            if (!t.isObjectProperty(property)) continue;
+            if (t.isIdentifier(property.key, { name: 'children' }) && t.isArrayExpression(property.value)) {
+                attachRoutePreloads(property.value.elements.filter((el): el is t.Expression => !!el), preloadMap);
+                continue;
+            }
+            collectPreloadNames(property.value, preloadMap, preloads);
+        }
+        if (preloads.size > 0) {
+            route.properties.push(
+                createRouteProperty('preload', t.arrayExpression([...preloads].map((name) => t.identifier(name))))
+            );
+        }
+    }
+}
+
+function isRouteObjectExpression(node: t.Node): boolean {
+    return t.isObjectExpression(node) && node.properties.some(
+        (property) => t.isObjectProperty(property) && t.isIdentifier(property.key, { name: 'element' })
+    );
+}
+
+function collectPreloadNames(node: t.Node, preloadMap: Map<string, string>, into: Set<string>): void {
+    if (t.isIdentifier(node)) {
+        const preloadName = preloadMap.get(node.name);
+        if (preloadName) into.add(preloadName);
+        return;
+    }
+    if (isRouteObjectExpression(node)) return;
+    for (const key of t.VISITOR_KEYS[node.type] ?? []) {
+        const child = (node as unknown as Record<string, unknown>)[key];
+        const children = Array.isArray(child) ? child : [child];
+        for (const entry of children) {
+            if (entry && typeof (entry as t.Node).type === 'string') {
+                collectPreloadNames(entry as t.Node, preloadMap, into);
+            }
+        }
+    }
+}
+
 /**
  * Generates the complete routes module AST
  */
@@ -1305,11 +1845,20 @@ function generateRoutesAST(
         rootPage,
         rootError,
         rootLoading,
+        rootTemplate,
+        rootLoader,
+        rootAction,
         rootSlots,
+        basename,
+        routerMode = 'browser',
+        staticParams = {},
+        ssr = false,
+        hmr = false,
     } = options;
+    const appRoot = !!options.prerender && routerMode === 'browser' && !ssr;
 
     if (routes.length === 0) {
-        return generateEmptyRoutesAST();
+        return generateEmptyRoutesAST(appRoot);
     }
 
     // Drop intercepts whose target route doesn't exist — without a regular sibling
@@ -1322,11 +1871,15 @@ function generateRoutesAST(
         if (targetPatterns.has(ic.targetPattern)) {
             usableIntercepts.push(ic);
         } else {
-            console.warn(
-                `[vite-plugin-react-app-router] intercepting subtree at "${ic.targetPattern}" ` +
-                `has no regular page mounted at that target; skipping interception. ` +
-                `Create a page.tsx at that route to enable it.`
-            );
+            reportDiagnostic({
+                code: 'intercept-without-target',
+                severity: 'warning',
+                message:
+                    `intercepting subtree at "${ic.targetPattern}" ` +
+                    `has no regular page mounted at that target; skipping interception. ` +
+                    `Create a page.tsx at that route to enable it.`,
+                file: ic.subtree.pagePath ?? ic.subtree.layoutPath,
+            });
         }
     }
 
@@ -1339,11 +1892,16 @@ function generateRoutesAST(
     let statements: t.Statement[];
     let componentMap: Map<string, string>;
     let layoutMap: Map<string, string>;
+    let templateMap: Map<string, string> = new Map();
     let loadingMap: Map<string, string>;
     let errorMap: Map<string, string>;
     let notFoundMap: Map<string, string>;
     let defaultMap: Map<string, string> = new Map();
     let sharedPropsMap: Map<string, string> = new Map();
+    let loaderMap: Map<string, string> = new Map();
+    let actionMap: Map<string, string> = new Map();
+    let metadataMap: Map<string, string> = new Map();
+    let preloadMap: Map<string, string> = new Map();
 
     // Detect any slot, shared-module invocation, or shared props anywhere in
     // the tree to know which runtime imports must be emitted.
@@ -1354,27 +1912,51 @@ function generateRoutesAST(
     const hasAnySharedInvocation = !!(tree && hasSharedInvocationInAnyNode(tree));
     const hasAnySharedProps = !!(tree && hasSharedPropsInAnyNode(tree));
 
+    // Segment loaders and actions need the data router; intercept mode renders through
+    // <BrowserRouter> + useRoutes(), which never runs them.
+    const dataRouter = usableIntercepts.length === 0;
+
     if (useTree) {
         const paths = collectPathsFromTree(
             tree!,
             {
                 layoutPath: rootLayout,
+                templatePath: rootTemplate,
                 pagePath: rootPage,
                 loadingPath: rootLoading,
                 errorPath: rootError,
                 notFoundPath: rootNotFound,
+                loaderPath: rootLoader,
+                actionPath: rootAction,
             },
             rootSlots
         );
+        checkCollectedRouteModules(paths);
+        if (!dataRouter && (paths.loaders.length > 0 || paths.actions.length > 0)) {
+            reportDiagnostic({
+                code: 'data-in-intercept-mode',
+                severity: 'warning',
+                message:
+                    `loader.ts/action.ts files are ignored while ` +
+                    `intercepting routes are declared — intercept mode renders through ` +
+                    `<BrowserRouter>, which does not run data loaders or actions.`,
+                file: paths.loaders[0] ?? paths.actions[0],
+            });
+        }
         ({
             statements,
             componentMap,
             layoutMap,
+            templateMap,
             loadingMap,
             errorMap,
             notFoundMap,
             defaultMap,
             sharedPropsMap,
+            loaderMap,
+            actionMap,
+            metadataMap,
+            preloadMap,
         } = collectImportsFromPaths(
             paths,
             rootDir,
@@ -1382,11 +1964,15 @@ function generateRoutesAST(
             usableIntercepts,
             hasAnySlot,
             hasAnySharedInvocation,
-            hasAnySharedProps
+            hasAnySharedProps,
+            dataRouter && paths.loaders.length > 0,
+            dataRouter && paths.actions.length > 0,
+            Object.keys(staticParams).length > 0,
+            routerMode
         ));
     } else {
         ({ statements, componentMap, layoutMap, loadingMap, errorMap, notFoundMap } =
-            collectImports(routes, rootDir, lazy, rootNotFound, usableIntercepts));
+            collectImports(routes, rootDir, lazy, rootNotFound, usableIntercepts, routerMode));
     }
 
     // The legacy resolver-per-target wrapper is gone — interception is done at
@@ -1399,12 +1985,18 @@ function generateRoutesAST(
         const ctx: BuilderCtx = {
             componentMap,
             layoutMap,
+            templateMap,
             loadingMap,
             errorMap,
             notFoundMap,
             defaultMap,
             sharedPropsMap,
+            loaderMap,
+            actionMap,
+            metadataMap,
+            staticParamsGuards: collectStaticParamsGuards(tree!, staticParams, rootNotFound, notFoundMap),
             lazy,
+            dataRouter,
         };
 
         // Synthesise a virtual root node from the per-app metadata so the
@@ -1418,10 +2010,13 @@ function generateRoutesAST(
             isGroup: false,
             children: tree!,
             ...(rootLayout ? { layoutPath: rootLayout } : {}),
+            ...(rootTemplate ? { templatePath: rootTemplate } : {}),
             ...(rootPage ? { pagePath: rootPage } : {}),
             ...(rootError ? { errorPath: rootError } : {}),
             ...(rootLoading ? { loadingPath: rootLoading } : {}),
             ...(rootNotFound ? { notFoundPath: rootNotFound } : {}),
+            ...(rootLoader ? { loaderPath: rootLoader } : {}),
+            ...(rootAction ? { actionPath: rootAction } : {}),
             ...(rootSlots && rootSlots.length > 0 ? { slots: rootSlots } : {}),
         };
 
@@ -1520,6 +2115,10 @@ function generateRoutesAST(
         );
     }
 
+    attachRoutePreloads(routeDefinitions, preloadMap);
+    // Only the tree-based imports declare the branch preloading helpers.
+    const preloadBranches = useTree && lazy && !ssr;
+
     // const routes = [...]
     statements.push(
         t.variableDeclaration('const', [
@@ -1556,6 +2155,27 @@ function generateRoutesAST(
         )
     );
 
+    // export const preloadRoute = createRoutePreloader(routes)
+    // export const PrefetchLink = createPrefetchLink(preloadRoute)
+    statements.push(
+        t.exportNamedDeclaration(
+            t.variableDeclaration('const', [
+                t.variableDeclarator(
+                    t.identifier('preloadRoute'),
+                    t.callExpression(t.identifier('createRoutePreloader'), [t.identifier('routes')])
+                ),
+            ])
+        ),
+        t.exportNamedDeclaration(
+            t.variableDeclaration('const', [
+                t.variableDeclarator(
+                    t.identifier('PrefetchLink'),
+                    t.callExpression(t.identifier('createPrefetchLink'), [t.identifier('preloadRoute')])
+                ),
+            ])
+        )
+    );
+
     if (usableIntercepts.length > 0) {
         // Intercept mode — emit an __intercepts__ table where each entry is
         // a self-contained route table for the overlay (intercept template's
@@ -1568,16 +2188,37 @@ function generateRoutesAST(
         const interceptCtx: BuilderCtx = {
             componentMap,
             layoutMap,
+            templateMap,
             loadingMap,
             errorMap,
             notFoundMap,
             defaultMap,
             sharedPropsMap,
+            loaderMap,
+            actionMap,
+            metadataMap,
+            staticParamsGuards: new Map(),
             lazy,
+            dataRouter: false,
         };
-        statements.push(buildInterceptsArray(usableIntercepts, interceptCtx));
-        statements.push(...buildInnerRouterDeclaration());
-        statements.push(buildInterceptModeAppRouter());
+        statements.push(buildInterceptsArray(usableIntercepts, interceptCtx, preloadMap));
+        if (hmr) {
+            // const __routeTables__ = hotRouteTables(import.meta.hot, routes, __intercepts__);
+            statements.push(
+                t.variableDeclaration('const', [
+                    t.variableDeclarator(
+                        t.identifier('__routeTables__'),
+                        t.callExpression(t.identifier('hotRouteTables'), [
+                            createImportMetaHot(),
+                            t.identifier('routes'),
+                            t.identifier('__intercepts__'),
+                        ])
+                    ),
+                ])
+            );
+        }
+        statements.push(...buildInnerRouterDeclaration(hmr, preloadBranches));
+        statements.push(buildInterceptModeAppRouter(routerMode, basename));
         // Intercept mode uses <BrowserRouter> + useRoutes() instead of the
         // data router, so there is no createBrowserRouter instance. Still
         // emit `router` (as null) so consumers re-exporting the virtual
@@ -1596,14 +2237,29 @@ function generateRoutesAST(
             ])
         );
     } else {
-        // Regular mode — data router via createBrowserRouter.
+        // Regular mode — data router via createBrowserRouter (or its hash /
+        // memory counterpart). The prerender bundle renders through a static
+        // router instead, so it gets `router = null`. With lazy routes the
+        // router is wrapped so each matched branch loads in parallel.
+        const createRouterCreation = (): t.CallExpression => {
+            const factory = createRouterFactoryCall(routerMode, basename);
+            return preloadBranches
+                ? t.callExpression(t.identifier('preloadMatchedBranches'), [factory])
+                : factory;
+        };
         statements.push(
             t.variableDeclaration('const', [
                 t.variableDeclarator(
                     t.identifier('router'),
-                    t.callExpression(t.identifier('createBrowserRouter'), [
-                        t.identifier('routes'),
-                    ])
+                    ssr
+                        ? t.nullLiteral()
+                        : hmr
+                            ? t.callExpression(t.identifier('hotDataRouter'), [
+                                createImportMetaHot(),
+                                t.identifier('routes'),
+                                t.arrowFunctionExpression([], createRouterCreation()),
+                            ])
+                            : createRouterCreation()
                 ),
             ])
         );
@@ -1633,37 +2289,117 @@ function generateRoutesAST(
         );
     }
 
+    if (appRoot) {
+        const [rootImport, rootFactory] = buildCreateAppRoot();
+        statements.unshift(rootImport);
+        statements.push(rootFactory);
+    }
+
     // Re-export runtime hooks from the virtual module so consumers can
     // `import { useSharedModule, useSlot, ... } from 'virtual:app-router'`
     // alongside AppRouter / useTemplateLink.
-    statements.push(
-        t.exportNamedDeclaration(
-            null,
-            [
-                t.exportSpecifier(t.identifier('useSlot'), t.identifier('useSlot')),
-                t.exportSpecifier(
-                    t.identifier('useSharedModule'),
-                    t.identifier('useSharedModule')
-                ),
-                t.exportSpecifier(
-                    t.identifier('useSharedSlot'),
-                    t.identifier('useSharedSlot')
-                ),
-                t.exportSpecifier(
-                    t.identifier('useSharedProps'),
-                    t.identifier('useSharedProps')
-                ),
-            ],
-            t.stringLiteral('vite-plugin-react-app-router/runtime')
-        )
-    );
+    statements.push(buildRuntimeReExport());
 
     // export default AppRouter
     statements.push(t.exportDefaultDeclaration(t.identifier('AppRouter')));
 
+    if (hmr) {
+        applyHotModuleWiring(statements, usableIntercepts.length > 0);
+    }
+
     return t.program(statements);
 }
 
+/** `import.meta.hot` */
+function createImportMetaHot(): t.MemberExpression {
+    return t.memberExpression(
+        t.metaProperty(t.identifier('import'), t.identifier('meta')),
+        t.identifier('hot')
+    );
+}
+
+/** `createBrowserRouter(routes, { basename })` (or its hash / memory counterpart). */
+function createRouterFactoryCall(routerMode: RouterMode, basename: string | undefined): t.CallExpression {
+    return t.callExpression(t.identifier(ROUTER_FACTORIES[routerMode]), [
+        t.identifier('routes'),
+        ...(basename ? [createBasenameOptions(basename)!] : []),
+    ]);
+}
+
+/**
+ * Finishes the dev-server flavour of the module:
+ *   - `lazy(preloadX)` (with `preloadX = () => import("/p")`) becomes
+ *     `hotLazy(import.meta.hot, "/p", preloadX)`, so components of unchanged
+ *     files keep their identity across updates;
+ *   - the HMR helpers join the runtime import;
+ *   - `if (import.meta.hot) import.meta.hot.accept();` makes the module its
+ *     own HMR boundary. The new evaluation patches the live router (see
+ *     hotDataRouter / hotRouteTables) instead of the page reloading.
+ */
+function applyHotModuleWiring(
+    statements: t.Statement[],
+    interceptMode: boolean
+): void {
+    // Import path of every `const name = () => import("/p")` loader.
+    const loaderPaths = new Map<string, string>();
+    const importPathOf = (load: t.Node | undefined): string | undefined => {
+        if (t.isIdentifier(load)) return loaderPaths.get(load.name);
+        if (!t.isArrowFunctionExpression(load)) return undefined;
+        const dynamicImport = load.body;
+        if (!t.isCallExpression(dynamicImport) || !t.isStringLiteral(dynamicImport.arguments[0])) return undefined;
+        return dynamicImport.arguments[0].value;
+    };
+
+    let usesHotLazy = false;
+    for (const statement of statements) {
+        if (!t.isVariableDeclaration(statement)) continue;
+        for (const declarator of statement.declarations) {
+            const init = declarator.init;
+            if (t.isIdentifier(declarator.id) && t.isArrowFunctionExpression(init)) {
+                const importPath = importPathOf(init);
+                if (importPath) loaderPaths.set(declarator.id.name, importPath);
+                continue;
+            }
+            if (!t.isCallExpression(init) || !t.isIdentifier(init.callee, { name: 'lazy' })) continue;
+            const load = init.arguments[0];
+            const importPath = importPathOf(load);
+            if (!importPath) continue;
+            declarator.init = t.callExpression(t.identifier('hotLazy'), [
+                createImportMetaHot(),
+                t.stringLiteral(importPath),
+                load as t.Expression,
+            ]);
+            usesHotLazy = true;
+        }
+    }
+
+    const helpers = [
+        ...(usesHotLazy ? ['hotLazy'] : []),
+        ...(interceptMode ? ['hotRouteTables', 'useRouteTables'] : ['hotDataRouter']),
+    ];
+    const runtimeImport = statements.find(
+        (statement): statement is t.ImportDeclaration =>
+            t.isImportDeclaration(statement) &&
+            statement.source.value === 'vite-plugin-react-app-router/runtime'
+    );
+    if (runtimeImport) {
+        runtimeImport.specifiers.push(...helpers.map(createNamedImport));
+    } else {
+        statements.unshift(
+            createImportDeclaration(helpers.map(createNamedImport), 'vite-plugin-react-app-router/runtime')
+        );
+    }
+
+    statements.push(
+        t.ifStatement(
+            createImportMetaHot(),
+            t.expressionStatement(
+                t.callExpression(t.memberExpression(createImportMetaHot(), t.identifier('accept')), [])
+            )
+        )
+    );
+}
+
 /**
  * Emits:
  *   const __intercepts__ = [
@@ -1693,7 +2429,8 @@ function generateRoutesAST(
  */
 function buildInterceptsArray(
     intercepts: InterceptedRoute[],
-    ctx: BuilderCtx
+    ctx: BuilderCtx,
+    preloadMap: Map<string, string>
 ): t.VariableDeclaration {
     const entries = intercepts.map((ic) => {
         // Build the overlay's route table by walking the grafted subtree.
@@ -1710,6 +2447,7 @@ function buildInterceptsArray(
             /* subtreeRoot */ ic.targetPattern,
             /* bypassInterceptingFilter */ true
         );
+        attachRoutePreloads(subtreeRoutes, preloadMap);
         return t.objectExpression([
             t.objectProperty(t.identifier('source'), t.stringLiteral(ic.sourcePattern)),
             t.objectProperty(t.identifier('target'), t.stringLiteral(ic.targetPattern)),
@@ -1761,7 +2499,7 @@ function buildInterceptsArray(
  *     empty-array sentinel is hoisted to module scope so React sees the same
  *     reference across renders and doesn't churn its internal route cache.
  */
-function buildInnerRouterDeclaration(): t.Statement[] {
+function buildInnerRouterDeclaration(hmr: boolean, preloadBranches: boolean): t.Statement[] {
     // Sentinel route table used when no intercept is active. A literal `[]`
     // would make `useRoutes` log "No routes matched location ..." every render
     // (React Router warns whenever its match returns null). A single catch-all
@@ -1899,6 +2637,20 @@ function buildInnerRouterDeclaration(): t.Statement[] {
         t.blockStatement([forStmt])
     );
 
+    // useMatchedBranchPreload(routes, baseLoc.pathname);
+    // useMatchedBranchPreload(overlayRoutes, location.pathname);
+    const preloadCalls = [
+        [t.identifier('routes'), t.identifier('baseLoc')],
+        [t.identifier('overlayRoutes'), t.identifier('location')],
+    ].map(([table, loc]) =>
+        t.expressionStatement(
+            t.callExpression(t.identifier('useMatchedBranchPreload'), [
+                table!,
+                t.memberExpression(loc!, t.identifier('pathname')),
+            ])
+        )
+    );
+
     const mainDecl = t.variableDeclaration('const', [
         t.variableDeclarator(
             t.identifier('main'),
@@ -1932,10 +2684,24 @@ function buildInnerRouterDeclaration(): t.Statement[] {
         ])
     );
 
+    // Dev server: read the tables through the hot-swappable holder. Shadowing
+    // the module-level names keeps the body below identical.
+    // const { routes, intercepts: __intercepts__ } = useRouteTables(__routeTables__);
+    const tablesDecl = t.variableDeclaration('const', [
+        t.variableDeclarator(
+            t.objectPattern([
+                t.objectProperty(t.identifier('routes'), t.identifier('routes'), false, true),
+                t.objectProperty(t.identifier('intercepts'), t.identifier('__intercepts__')),
+            ]),
+            t.callExpression(t.identifier('useRouteTables'), [t.identifier('__routeTables__')])
+        ),
+    ]);
+
     const fn = t.functionDeclaration(
         t.identifier('__innerRouter__'),
         [],
         t.blockStatement([
+            ...(hmr ? [tablesDecl] : []),
             locationDecl,
             stateDecl,
             bgDecl,
@@ -1943,6 +2709,7 @@ function buildInnerRouterDeclaration(): t.Statement[] {
             overlayRoutesDecl,
             baseLocDecl,
             guard,
+            ...(preloadBranches ? preloadCalls : []),
             mainDecl,
             overlayDecl,
             ret,
@@ -1957,16 +2724,20 @@ function buildInnerRouterDeclaration(): t.Statement[] {
  *   export function AppRouter() {
  *     return createElement(BrowserRouter, null, createElement(__innerRouter__, null));
  *   }
+ * (HashRouter / MemoryRouter for the other router modes.)
  */
-function buildInterceptModeAppRouter(): t.ExportNamedDeclaration {
+function buildInterceptModeAppRouter(
+    routerMode: RouterMode,
+    basename?: string
+): t.ExportNamedDeclaration {
     const fn = t.functionDeclaration(
         t.identifier('AppRouter'),
         [],
         t.blockStatement([
             t.returnStatement(
                 t.callExpression(t.identifier('createElement'), [
-                    t.identifier('BrowserRouter'),
-                    t.nullLiteral(),
+                    t.identifier(ROUTER_COMPONENTS[routerMode]),
+                    createBasenameOptions(basename) ?? t.nullLiteral(),
                     t.callExpression(t.identifier('createElement'), [
                         t.identifier('__innerRouter__'),
                         t.nullLiteral(),
@@ -1979,9 +2750,63 @@ function buildInterceptModeAppRouter(): t.ExportNamedDeclaration {
 }
 
 /**
- * Generates AST for empty routes
+ * Emits the `react-dom/client` import and:
+ *   export function createAppRoot(container, children = createElement(AppRouter)) {
+ *     if (container.hasAttribute("data-prerendered")) return hydrateRoot(container, children);
+ *     const root = createRoot(container);
+ *     root.render(children);
+ *     return root;
+ *   }
+ * Prerendered pages carry the attribute on their container, so the client
+ * adopts the existing markup instead of replacing it.
+ */
+function buildCreateAppRoot(): [t.ImportDeclaration, t.ExportNamedDeclaration] {
+    const importDecl = createImportDeclaration(
+        [createNamedImport('createRoot'), createNamedImport('hydrateRoot')],
+        'react-dom/client'
+    );
+    const container = t.identifier('container');
+    const children = t.identifier('children');
+    const fn = t.functionDeclaration(
+        t.identifier('createAppRoot'),
+        [
+            container,
+            t.assignmentPattern(
+                t.identifier('children'),
+                t.callExpression(t.identifier('createElement'), [t.identifier('AppRouter')])
+            ),
+        ],
+        t.blockStatement([
+            t.ifStatement(
+                t.callExpression(t.memberExpression(container, t.identifier('hasAttribute')), [
+                    t.stringLiteral(PRERENDERED_ATTR),
+                ]),
+                t.returnStatement(
+                    t.callExpression(t.identifier('hydrateRoot'), [container, children])
+                )
+            ),
+            t.variableDeclaration('const', [
+                t.variableDeclarator(
+                    t.identifier('root'),
+                    t.callExpression(t.identifier('createRoot'), [container])
+                ),
+            ]),
+            t.expressionStatement(
+                t.callExpression(t.memberExpression(t.identifier('root'), t.identifier('render')), [
+                    children,
+                ])
+            ),
+            t.returnStatement(t.identifier('root')),
+        ])
+    );
+    return [importDecl, t.exportNamedDeclaration(fn)];
+}
+
+/**
+ * Generates AST for empty routes, with `createAppRoot` when `appRoot` is set
+ * (see CodeGeneratorOptions.prerender).
  */
-function generateEmptyRoutesAST(): t.Program {
+function generateEmptyRoutesAST(appRoot = false): t.Program {
     const statements: t.Statement[] = [];
 
     // import { createElement } from 'react'
@@ -2031,30 +2856,16 @@ function generateEmptyRoutesAST(): t.Program {
         ])
     );
 
+    if (appRoot) {
+        const [rootImport, rootFactory] = buildCreateAppRoot();
+        statements.unshift(rootImport);
+        statements.push(rootFactory);
+    }
+
     // Re-export runtime hooks from the virtual module so consumers can
     // `import { useSharedModule, useSlot, ... } from 'virtual:app-router'`
     // alongside AppRouter / useTemplateLink.
-    statements.push(
-        t.exportNamedDeclaration(
-            null,
-            [
-                t.exportSpecifier(t.identifier('useSlot'), t.identifier('useSlot')),
-                t.exportSpecifier(
-                    t.identifier('useSharedModule'),
-                    t.identifier('useSharedModule')
-                ),
-                t.exportSpecifier(
-                    t.identifier('useSharedSlot'),
-                    t.identifier('useSharedSlot')
-                ),
-                t.exportSpecifier(
-                    t.identifier('useSharedProps'),
-                    t.identifier('useSharedProps')
-                ),
-            ],
-            t.stringLiteral('vite-plugin-react-app-router/runtime')
-        )
-    );
+    statements.push(buildRuntimeReExport());
 
     // export default AppRouter
     statements.push(t.exportDefaultDeclaration(t.identifier('AppRouter')));
@@ -2068,11 +2879,14 @@ function generateEmptyRoutesAST(): t.Program {
  * showing the intercepting page after F5. We strip the marker so the
  * canonical page renders instead — matching Next.js behavior.
  *
- * Must execute *before* `createBrowserRouter` reads the history state.
+ * Must execute *before* `createBrowserRouter` reads the history state. With
+ * `hmr`, hot re-evaluations of the module skip it — the navigation entry still
+ * says "reload", but an open intercept overlay should stay open.
  */
-const HARD_REFRESH_FIX_SNIPPET = `
+function buildHardRefreshFixSnippet(hmr: boolean): string {
+    return `
 // vite-plugin-react-app-router: drop appRouterBackgroundLocation on hard refresh
-if (typeof window !== "undefined" && typeof performance !== "undefined") {
+if (typeof window !== "undefined" && typeof performance !== "undefined"${hmr ? ' && !(import.meta.hot && import.meta.hot.data.routerKind)' : ''}) {
   try {
     var __vparr_nav__ = performance.getEntriesByType("navigation")[0];
     if (__vparr_nav__ && __vparr_nav__.type === "reload") {
@@ -2091,6 +2905,7 @@ if (typeof window !== "undefined" && typeof performance !== "undefined") {
   } catch (__vparr_err__) {}
 }
 `;
+}
 
 /**
  * Inserts a raw code snippet right after the last `import ... from "..."`
@@ -2125,8 +2940,10 @@ export function generateRoutesCode(
         compact: false,
     });
     let code = output.code;
-    if ((options.intercepts || []).length > 0) {
-        code = injectAfterImports(code, HARD_REFRESH_FIX_SNIPPET);
+    // Memory routers start from a fresh history on every load, so there is no
+    // persisted background location to strip.
+    if ((options.intercepts || []).length > 0 && options.routerMode !== 'memory' && !options.ssr) {
+        code = injectAfterImports(code, buildHardRefreshFixSnippet(!!options.hmr));
     }
     return code;
 }
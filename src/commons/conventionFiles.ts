@@ -0,0 +1,195 @@
+/**
+ * Convention file checks
+ *
+ * The parser only picks up exact, lowercase convention names with one of the
+ * configured extensions, so `Page.tsx`, `layot.tsx`, `not_found.tsx` or a
+ * `loading.jsx` outside `extensions` are silently ignored — and a folder
+ * renders nothing. This looks at the files of every scanned directory and
+ * reports the ones that look like a convention but are not recognized (with
+ * a "did you mean" suggestion), and recognized ones that have no effect where
+ * they are, like a `default.tsx` outside an `@slot` folder.
+ */
+
+import * as path from 'path';
+import { reportDiagnostic } from './diagnostics.js';
+import { listFiles } from './scanCache.js';
+
+/**
+ * What a scanned directory is, which decides the convention files it reads.
+ */
+export type ConventionDirectoryKind = 'root' | 'route' | 'slot' | 'intercept' | 'shared' | 'invocation';
+
+const CONVENTION_NAMES = [
+    'page',
+    'layout',
+    'template',
+    'loading',
+    'error',
+    'not-found',
+    'loader',
+    'action',
+    'default',
+    'props',
+] as const;
+
+const ROUTE_FILES = ['page', 'layout', 'template', 'loading', 'error', 'not-found', 'loader', 'action'];
+
+/** Convention files each kind of directory reads. */
+const EFFECTIVE_FILES: Record<ConventionDirectoryKind, ReadonlySet<string>> = {
+    root: new Set(ROUTE_FILES),
+    route: new Set(ROUTE_FILES),
+    shared: new Set(ROUTE_FILES),
+    invocation: new Set([...ROUTE_FILES, 'props']),
+    slot: new Set(['page', 'layout', 'template', 'loading', 'error', 'not-found', 'default']),
+    intercept: new Set(['page', 'loading', 'error']),
+};
+
+const PLACEMENT_HINTS: Record<string, string> = {
+    default: 'only takes effect directly inside an `@slot` folder',
+    props: 'only takes effect inside a `[+name]` / `(+name)` invocation folder',
+};
+
+const KIND_DESCRIPTIONS: Record<ConventionDirectoryKind, string> = {
+    root: 'the app root',
+    route: 'a route folder',
+    shared: 'a `+name` shared module',
+    invocation: 'a shared-module invocation',
+    slot: 'the root of an `@slot` folder',
+    intercept: 'the root of an intercepting folder',
+};
+
+/** Module extensions worth checking — stylesheets, images etc. are not. */
+const SCRIPT_EXTENSIONS = new Set(['.tsx', '.ts', '.jsx', '.js', '.mts', '.mjs', '.cts', '.cjs']);
+
+/**
+ * Whether adding or removing `filePath` can change a parse of its directory:
+ * any module might be a convention file, a misspelled one, or one outside
+ * the `extensions` option.
+ */
+export function isScriptFile(filePath: string): boolean {
+    return SCRIPT_EXTENSIONS.has(path.extname(filePath));
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring letters as one edit.
+ */
+export function editDistance(a: string, b: string): number {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0]![j] = j;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let best = Math.min(rows[i - 1]![j]! + 1, rows[i]![j - 1]! + 1, rows[i - 1]![j - 1]! + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                best = Math.min(best, rows[i - 2]![j - 2]! + 1);
+            }
+            rows[i]![j] = best;
+        }
+    }
+    return rows[a.length]![b.length]!;
+}
+
+/**
+ * PascalCase forms of conventions that are just as often ordinary modules
+ * kept next to a route (a spinner `Loader.tsx`, an `Error.tsx` message, the
+ * types in `Props.ts`).
+ */
+const COMPONENT_NAMES = new Set(['Loader', 'Loading', 'Error', 'Action', 'Props']);
+
+/**
+ * The convention a file name was probably meant to be: same letters in
+ * another case or with `_` / spaces / no separator, or one typo away with the
+ * same first letter — for the short names, only a swapped or replaced letter
+ * (`Pager.tsx` is not a `page`). Plurals (`actions.ts`, `pages.tsx`) are
+ * ordinary modules.
+ */
+function suggestConvention(stem: string): string | undefined {
+    if (COMPONENT_NAMES.has(stem)) return undefined;
+    const lower = stem.toLowerCase();
+    const squashed = lower.replace(/[-_\s]/g, '');
+    for (const name of CONVENTION_NAMES) {
+        if (squashed === name.replace(/-/g, '')) return name;
+    }
+    for (const name of CONVENTION_NAMES) {
+        if (lower === `${name}s`) return undefined;
+    }
+    return CONVENTION_NAMES.find(
+        (name) =>
+            lower[0] === name[0] &&
+            (name.length > 5 || lower.length === name.length) &&
+            editDistance(lower, name) === 1
+    );
+}
+
+/**
+ * Reports the files of `dirPath` that look like convention files but are
+ * not recognized, and recognized ones that have no effect in a directory of
+ * this `kind`.
+ */
+export function checkConventionFiles(
+    dirPath: string,
+    kind: ConventionDirectoryKind,
+    extensions: string[]
+): void {
+    const files = listFiles(dirPath);
+    const effective = EFFECTIVE_FILES[kind];
+    /** Recognized convention name → file name. */
+    const recognized = new Map<string, string>();
+
+    for (const fileName of files) {
+        const ext = path.extname(fileName);
+        const stem = fileName.slice(0, -ext.length);
+        if (!SCRIPT_EXTENSIONS.has(ext) || !stem || stem.includes('.')) continue;
+        const file = path.join(dirPath, fileName);
+
+        if ((CONVENTION_NAMES as readonly string[]).includes(stem)) {
+            if (!extensions.includes(ext)) {
+                reportDiagnostic({
+                    code: 'unrecognized-convention-file',
+                    severity: 'warning',
+                    message:
+                        `${fileName} is ignored: "${ext}" is not in the extensions option ` +
+                        `(${extensions.join(', ')}).`,
+                    file,
+                });
+            } else if (!effective.has(stem)) {
+                const hint = PLACEMENT_HINTS[stem] ?? `is not read in ${KIND_DESCRIPTIONS[kind]}`;
+                reportDiagnostic({
+                    code: 'ineffective-convention-file',
+                    severity: 'warning',
+                    message: `${fileName} ${hint}; it has no effect at ${dirPath}.`,
+                    file,
+                });
+            } else {
+                recognized.set(stem, fileName);
+            }
+            continue;
+        }
+
+        const suggestion = suggestConvention(stem);
+        if (suggestion) {
+            reportDiagnostic({
+                code: 'unrecognized-convention-file',
+                severity: 'warning',
+                message:
+                    `${fileName} is not a route convention file and is ignored — ` +
+                    `did you mean ${suggestion}${extensions.includes(ext) ? ext : extensions[0]}?`,
+                file,
+            });
+        }
+    }
+
+    // Nested not-found pages render inside the layout of their own segment.
+    const notFound = recognized.get('not-found');
+    if (kind === 'route' && notFound && !recognized.has('layout')) {
+        reportDiagnostic({
+            code: 'ineffective-convention-file',
+            severity: 'warning',
+            message:
+                `${notFound} is not rendered for unmatched URLs without a layout next to it — ` +
+                `a nested not-found renders inside its segment's layout. Add a layout to ` +
+                `${dirPath} or move it up.`,
+            file: path.join(dirPath, notFound),
+        });
+    }
+}
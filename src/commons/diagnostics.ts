@@ -0,0 +1,57 @@
+/**
+ * Parser / generator diagnostics
+ *
+ * Problems found while scanning the app directory or generating the routes
+ * module are reported here instead of being logged directly, so callers can
+ * collect them: the CLI's `check` command, the dev server (which forwards
+ * them to Vite's error overlay) and the build (`this.warn` / `this.error`).
+ * Outside a collection they are logged as before.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+    /** Stable identifier of the problem (e.g. "unresolved-shared-module"). */
+    code: string;
+    severity: DiagnosticSeverity;
+    message: string;
+    /** File or directory the problem was found at, when there is one. */
+    file?: string;
+}
+
+let activeCollector: Diagnostic[] | undefined;
+
+/**
+ * Reports a diagnostic: recorded by the enclosing collectDiagnostics() call,
+ * or logged to the console when there is none.
+ */
+export function reportDiagnostic(diagnostic: Diagnostic): void {
+    if (activeCollector) {
+        activeCollector.push(diagnostic);
+        return;
+    }
+    logDiagnostic(diagnostic);
+}
+
+/**
+ * Logs a diagnostic to the console the way an uncollected report would.
+ */
+export function logDiagnostic(diagnostic: Diagnostic): void {
+    const log = diagnostic.severity === 'error' ? console.error : console.warn;
+    log(`[vite-plugin-react-app-router] ${diagnostic.message}`);
+}
+
+/**
+ * Runs `fn`, returning its result together with the diagnostics it reported
+ * (which are not logged).
+ */
+export function collectDiagnostics<T>(fn: () => T): { result: T; diagnostics: Diagnostic[] } {
+    const previous = activeCollector;
+    const diagnostics: Diagnostic[] = [];
+    activeCollector = diagnostics;
+    try {
+        return { result: fn(), diagnostics };
+    } finally {
+        activeCollector = previous;
+    }
+}
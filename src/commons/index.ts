@@ -5,3 +5,11 @@
 export * from './types.js';
 export * from './routeParser.js';
 export * from './codeGenerator.js';
+export * from './typesGenerator.js';
+export * from './routesFile.js';
+export * from './routeModuleExports.js';
+export * from './routeManifest.js';
+export * from './routeConflicts.js';
+export * from './conventionFiles.js';
+export * from './scanCache.js';
+export * from './diagnostics.js';
@@ -0,0 +1,136 @@
+/**
+ * Route conflict analysis
+ *
+ * Runs over the finished route tree and finds URLs claimed by more than one
+ * page: `(group)` folders that both define a page for the same URL, `[+name]`
+ * / `(+name)` invocations landing on a real folder or page, two catch-alls or
+ * two dynamic segments at one level, and optional catch-alls next to a page
+ * for their parent URL. react-router silently renders whichever route ranks
+ * first, so each conflict is reported as a diagnostic naming every file.
+ */
+
+import * as path from 'path';
+import type { ParallelSlot, RouteNode } from './types.js';
+import { reportDiagnostic } from './diagnostics.js';
+
+export interface RouteClaim {
+    /** Route pattern the page is mounted at (e.g. "/blog/:id"). */
+    pattern: string;
+    /** Absolute path to the page file. */
+    pagePath: string;
+    /** Shared module the page was grafted from, if any. */
+    sharedModule?: string;
+}
+
+export interface RouteConflict {
+    /** URL shape shared by the claims, with params as `:param` (e.g. "/blog/:param"). */
+    url: string;
+    /** `@name` when the conflict is inside a parallel-route slot tree. */
+    slot?: string;
+    claims: RouteClaim[];
+}
+
+/**
+ * Reduces a pattern to the URLs it matches: param names do not matter, so
+ * `/blog/:id` and `/blog/:slug` share the key `/blog/:param`.
+ */
+function toConflictKey(pattern: string): string {
+    const segments = pattern
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => (segment.startsWith(':') ? ':param' : segment.toLowerCase()));
+    return '/' + segments.join('/');
+}
+
+function collectClaims(
+    nodes: RouteNode[],
+    rootPage: string | undefined,
+    rootPattern: string
+): Map<string, RouteClaim[]> {
+    const claims = new Map<string, RouteClaim[]>();
+    const claim = (key: string, entry: RouteClaim): void => {
+        const list = claims.get(key);
+        if (list) list.push(entry);
+        else claims.set(key, [entry]);
+    };
+    if (rootPage) claim(toConflictKey(rootPattern), { pattern: rootPattern, pagePath: rootPage });
+
+    const walk = (node: RouteNode, sharedModule: string | undefined): void => {
+        if (node.isIntercepting || node.isSharedDef) return;
+        const shared = node.sharedInvocation?.name ?? sharedModule;
+        if (node.pagePath) {
+            const pattern = node.path || '/';
+            const entry: RouteClaim = { pattern, pagePath: node.pagePath, ...(shared ? { sharedModule: shared } : {}) };
+            claim(toConflictKey(pattern), entry);
+            // `[[...slug]]` also matches its parent URL.
+            if (node.isOptionalCatchAll) {
+                claim(toConflictKey(pattern.replace(/\/\*$/, '')), entry);
+            }
+        }
+        for (const child of node.children) walk(child, shared);
+    };
+    for (const node of nodes) walk(node, undefined);
+    return claims;
+}
+
+function toConflicts(claims: Map<string, RouteClaim[]>, slot?: string): RouteConflict[] {
+    const conflicts: RouteConflict[] = [];
+    for (const [url, list] of claims) {
+        if (list.length > 1) conflicts.push({ url, ...(slot ? { slot } : {}), claims: list });
+    }
+    return conflicts;
+}
+
+/**
+ * Finds every URL claimed by more than one page, in the main route tree and
+ * inside each parallel-route slot (slots match the URL independently).
+ */
+export function findRouteConflicts(
+    tree: RouteNode[],
+    rootPage?: string,
+    rootSlots: ParallelSlot[] = []
+): RouteConflict[] {
+    const conflicts = toConflicts(collectClaims(tree, rootPage, '/'));
+
+    const visitSlots = (slots: ParallelSlot[], owner: string): void => {
+        for (const slot of slots) {
+            conflicts.push(...toConflicts(collectClaims(slot.tree, slot.pagePath, owner), `@${slot.name}`));
+            visitNodeSlots(slot.tree);
+        }
+    };
+    const visitNodeSlots = (nodes: RouteNode[]): void => {
+        for (const node of nodes) {
+            if (node.isIntercepting || node.isSharedDef) continue;
+            if (node.slots) visitSlots(node.slots, node.path || '/');
+            visitNodeSlots(node.children);
+        }
+    };
+    visitSlots(rootSlots, '/');
+    visitNodeSlots(tree);
+    return conflicts;
+}
+
+function describeClaim(claim: RouteClaim, rootDir: string): string {
+    const via = claim.sharedModule ? ` via +${claim.sharedModule}` : '';
+    const file = path.relative(rootDir, claim.pagePath).replace(/\\/g, '/');
+    return `${file} (${claim.pattern}${via})`;
+}
+
+/**
+ * Reports each conflict as a `route-conflict` diagnostic, naming the pages
+ * relative to `rootDir`.
+ */
+export function reportRouteConflicts(conflicts: RouteConflict[], rootDir: string): void {
+    for (const conflict of conflicts) {
+        const where = conflict.slot ? ` in slot ${conflict.slot}` : '';
+        reportDiagnostic({
+            code: 'route-conflict',
+            severity: 'warning',
+            message:
+                `URL "${conflict.url}"${where} is claimed by ${conflict.claims.length} pages: ` +
+                conflict.claims.map((claim) => describeClaim(claim, rootDir)).join(', ') +
+                ` — only one of them is reachable. Remove or move the others.`,
+            file: conflict.claims[0]!.pagePath,
+        });
+    }
+}
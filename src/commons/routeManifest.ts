@@ -0,0 +1,295 @@
+/**
+ * Route manifest
+ *
+ * A JSON-friendly description of every route the parser produced: the files
+ * that render it (page, layouts, boundaries, loaders), the slots and shared
+ * module invocations along its chain, and the intercepts layered on top.
+ * Paths are relative to the project root with forward slashes.
+ */
+
+import * as path from 'path';
+import type { ParallelSlot, RouteNode } from './types.js';
+import type { parseAppRouter } from './routeParser.js';
+
+export interface ManifestSlot {
+    /** Slot name without the leading `@`. */
+    name: string;
+    /** Pattern of the segment that owns the slot. */
+    owner: string;
+    layout?: string;
+    page?: string;
+    default?: string;
+    /** Every page file inside the slot tree. */
+    pages: string[];
+}
+
+export interface ManifestSharedInvocation {
+    /** Shared module name (without the `+`). */
+    name: string;
+    /** Pattern the module is mounted at. */
+    mount: string;
+    activeSubShareds: string[];
+}
+
+export interface ManifestRoute {
+    pattern: string;
+    page: string;
+    /** Outermost first. */
+    layouts: string[];
+    /** Outermost first. */
+    templates: string[];
+    /** Closest `loading.tsx`. */
+    loading?: string;
+    /** Closest `error.tsx`. */
+    error?: string;
+    /** Closest `not-found.tsx`. */
+    notFound?: string;
+    /** Segment `loader.ts` files that run for the route, outermost first. */
+    loaders: string[];
+    /** `action.ts` of the page's own segment. */
+    action?: string;
+    /** Slots owned by the route's segments, outermost first. */
+    slots: ManifestSlot[];
+    /** Shared-module invocations the route is mounted through, outermost first. */
+    sharedModules: ManifestSharedInvocation[];
+}
+
+export interface ManifestIntercept {
+    /** Pattern of the page the navigation starts from. */
+    source: string;
+    /** Pattern of the intercepted route. */
+    target: string;
+    layout?: string;
+    page?: string;
+    /** Every page file inside the intercepting subtree. */
+    pages: string[];
+}
+
+export interface RouteManifest {
+    routes: ManifestRoute[];
+    intercepts: ManifestIntercept[];
+    /** Root `not-found.tsx`, rendered for unmatched URLs. */
+    notFound?: string;
+}
+
+interface InheritedChain {
+    layouts: string[];
+    templates: string[];
+    loading?: string;
+    error?: string;
+    notFound?: string;
+    loaders: string[];
+    slots: ManifestSlot[];
+    sharedModules: ManifestSharedInvocation[];
+}
+
+function collectPageFiles(nodes: RouteNode[], toRelative: (p: string) => string): string[] {
+    const pages: string[] = [];
+    const walk = (node: RouteNode): void => {
+        if (node.isSharedDef) return;
+        if (node.pagePath) pages.push(toRelative(node.pagePath));
+        node.children.forEach(walk);
+    };
+    nodes.forEach(walk);
+    return pages;
+}
+
+function describeSlot(
+    slot: ParallelSlot,
+    owner: string,
+    toRelative: (p: string) => string
+): ManifestSlot {
+    return {
+        name: slot.name,
+        owner,
+        ...(slot.layoutPath ? { layout: toRelative(slot.layoutPath) } : {}),
+        ...(slot.pagePath ? { page: toRelative(slot.pagePath) } : {}),
+        ...(slot.defaultPath ? { default: toRelative(slot.defaultPath) } : {}),
+        pages: collectPageFiles(slot.tree, toRelative),
+    };
+}
+
+/**
+ * Builds the manifest for a parsed app directory. `rootDir` is the project
+ * root the file paths are made relative to.
+ */
+export function createRouteManifest(
+    parsed: ReturnType<typeof parseAppRouter>,
+    rootDir: string
+): RouteManifest {
+    const toRelative = (filePath: string): string =>
+        path.relative(rootDir, filePath).replace(/\\/g, '/');
+
+    const routes: ManifestRoute[] = [];
+    const seen = new Set<string>();
+
+    function visit(node: RouteNode, inherited: InheritedChain): void {
+        if (node.isIntercepting || node.isSharedDef) return;
+        const pattern = node.path || '/';
+        const chain: InheritedChain = {
+            layouts: node.layoutPath ? [...inherited.layouts, toRelative(node.layoutPath)] : inherited.layouts,
+            templates: node.templatePath
+                ? [...inherited.templates, toRelative(node.templatePath)]
+                : inherited.templates,
+            loading: node.loadingPath ? toRelative(node.loadingPath) : inherited.loading,
+            error: node.errorPath ? toRelative(node.errorPath) : inherited.error,
+            notFound: node.notFoundPath ? toRelative(node.notFoundPath) : inherited.notFound,
+            loaders: node.loaderPath ? [...inherited.loaders, toRelative(node.loaderPath)] : inherited.loaders,
+            slots: node.slots
+                ? [...inherited.slots, ...node.slots.map((slot) => describeSlot(slot, pattern, toRelative))]
+                : inherited.slots,
+            sharedModules: node.sharedInvocation
+                ? [
+                    ...inherited.sharedModules,
+                    {
+                        name: node.sharedInvocation.name,
+                        mount: pattern,
+                        activeSubShareds: [...node.sharedInvocation.activeSubShareds],
+                    },
+                ]
+                : inherited.sharedModules,
+        };
+
+        if (node.pagePath && !seen.has(pattern)) {
+            seen.add(pattern);
+            routes.push({
+                pattern,
+                page: toRelative(node.pagePath),
+                layouts: chain.layouts,
+                templates: chain.templates,
+                ...(chain.loading ? { loading: chain.loading } : {}),
+                ...(chain.error ? { error: chain.error } : {}),
+                ...(chain.notFound ? { notFound: chain.notFound } : {}),
+                loaders: chain.loaders,
+                ...(node.actionPath ? { action: toRelative(node.actionPath) } : {}),
+                slots: chain.slots,
+                sharedModules: chain.sharedModules,
+            });
+        }
+        for (const child of node.children) visit(child, chain);
+    }
+
+    // Same virtual root the code generator builds from the per-app fields.
+    const virtualRoot: RouteNode = {
+        segment: '',
+        path: '/',
+        isDynamic: false,
+        isCatchAll: false,
+        isOptionalCatchAll: false,
+        isGroup: false,
+        children: parsed.tree,
+        ...(parsed.rootLayout ? { layoutPath: parsed.rootLayout } : {}),
+        ...(parsed.rootTemplate ? { templatePath: parsed.rootTemplate } : {}),
+        ...(parsed.rootPage ? { pagePath: parsed.rootPage } : {}),
+        ...(parsed.rootError ? { errorPath: parsed.rootError } : {}),
+        ...(parsed.rootLoading ? { loadingPath: parsed.rootLoading } : {}),
+        ...(parsed.rootNotFound ? { notFoundPath: parsed.rootNotFound } : {}),
+        ...(parsed.rootLoader ? { loaderPath: parsed.rootLoader } : {}),
+        ...(parsed.rootAction ? { actionPath: parsed.rootAction } : {}),
+        ...(parsed.rootSlots && parsed.rootSlots.length > 0 ? { slots: parsed.rootSlots } : {}),
+    };
+    visit(virtualRoot, { layouts: [], templates: [], loaders: [], slots: [], sharedModules: [] });
+
+    const intercepts: ManifestIntercept[] = parsed.intercepts.map((ic) => ({
+        source: ic.sourcePattern,
+        target: ic.targetPattern,
+        ...(ic.subtree.layoutPath ? { layout: toRelative(ic.subtree.layoutPath) } : {}),
+        ...(ic.subtree.pagePath ? { page: toRelative(ic.subtree.pagePath) } : {}),
+        pages: collectPageFiles([ic.subtree], toRelative),
+    }));
+
+    return {
+        routes,
+        intercepts,
+        ...(parsed.rootNotFound ? { notFound: toRelative(parsed.rootNotFound) } : {}),
+    };
+}
+
+/**
+ * Every file a manifest route renders through — used to map routes to the
+ * output chunks that contain them.
+ */
+export function getManifestRouteFiles(route: ManifestRoute): string[] {
+    const files = [
+        route.page,
+        ...route.layouts,
+        ...route.templates,
+        ...route.loaders,
+        ...(route.loading ? [route.loading] : []),
+        ...(route.error ? [route.error] : []),
+        ...(route.notFound ? [route.notFound] : []),
+        ...(route.action ? [route.action] : []),
+    ];
+    for (const slot of route.slots) {
+        if (slot.layout) files.push(slot.layout);
+        if (slot.page) files.push(slot.page);
+        if (slot.default) files.push(slot.default);
+        files.push(...slot.pages);
+    }
+    return [...new Set(files)];
+}
+
+/**
+ * Matches a pathname against a route pattern the way react-router does
+ * (case-insensitive, `*` takes the rest of the path). Returns the params, or
+ * undefined when the pattern does not match.
+ */
+export function matchRoutePattern(pattern: string, pathname: string): Record<string, string> | undefined {
+    const patternSegments = pattern.split('/').filter(Boolean);
+    const pathSegments = pathname.split('/').filter(Boolean);
+    const params: Record<string, string> = {};
+    for (let i = 0; i < patternSegments.length; i++) {
+        const segment = patternSegments[i]!;
+        if (segment === '*') {
+            params['*'] = pathSegments.slice(i).map(decodeSegment).join('/');
+            return params;
+        }
+        const value = pathSegments[i];
+        if (value === undefined) return undefined;
+        if (segment.startsWith(':')) {
+            params[segment.slice(1)] = decodeSegment(value);
+        } else if (segment.toLowerCase() !== decodeSegment(value).toLowerCase()) {
+            return undefined;
+        }
+    }
+    return patternSegments.length === pathSegments.length ? params : undefined;
+}
+
+function decodeSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/** react-router's ranking: static segments beat params, which beat splats. */
+function scorePattern(pattern: string): number {
+    const segments = pattern.split('/').filter(Boolean);
+    let score = segments.length;
+    for (const segment of segments) {
+        if (segment === '*') score -= 2;
+        else if (segment.startsWith(':')) score += 3;
+        else score += 10;
+    }
+    return score;
+}
+
+export interface ManifestMatch {
+    route: ManifestRoute;
+    params: Record<string, string>;
+}
+
+/**
+ * Resolves the route that renders a pathname (relative to the basename).
+ */
+export function matchManifestRoute(manifest: RouteManifest, pathname: string): ManifestMatch | undefined {
+    let best: (ManifestMatch & { score: number }) | undefined;
+    for (const route of manifest.routes) {
+        const params = matchRoutePattern(route.pattern, pathname);
+        if (!params) continue;
+        const score = scorePattern(route.pattern);
+        if (!best || score > best.score) best = { route, params, score };
+    }
+    return best ? { route: best.route, params: best.params } : undefined;
+}
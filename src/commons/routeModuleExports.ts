@@ -0,0 +1,344 @@
+/**
+ * Route module exports
+ *
+ * Reads the exports of pages, layouts and the other convention files with
+ * Babel: codegen needs to know which of them declare `metadata` /
+ * `generateMetadata`, the build which pages export `generateStaticParams` or
+ * a literal `changefreq`. The same read validates the modules — a missing or
+ * non-component default export only fails at navigation time, with React's
+ * "Element type is invalid" pointing nowhere near the file, and a
+ * `generateMetaData` typo silently does nothing. Results are cached by mtime
+ * so rescans on every HMR event stay cheap.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, type ParserPlugin } from '@babel/parser';
+import type * as t from '@babel/types';
+import { reportDiagnostic } from './diagnostics.js';
+import { editDistance } from './conventionFiles.js';
+
+/**
+ * Convention file a module was found as.
+ */
+export type RouteModuleKind = 'page' | 'layout' | 'template' | 'loading' | 'error' | 'not-found' | 'default';
+
+/** Named exports the plugin reads from each kind of module. */
+const KNOWN_EXPORTS: Record<RouteModuleKind, readonly string[]> = {
+    page: ['metadata', 'generateMetadata', 'generateStaticParams', 'dynamicParams', 'changefreq', 'priority'],
+    layout: ['metadata', 'generateMetadata'],
+    template: [],
+    loading: [],
+    error: [],
+    'not-found': [],
+    default: [],
+};
+
+/**
+ * Next.js route segment config the plugin does not implement — exported
+ * from a route module, it is most likely expected to do something.
+ */
+const UNSUPPORTED_CONFIG_EXPORTS = new Set([
+    'dynamic',
+    'revalidate',
+    'fetchCache',
+    'runtime',
+    'preferredRegion',
+    'maxDuration',
+    'viewport',
+    'generateViewport',
+    'generateSitemaps',
+    'generateImageMetadata',
+]);
+
+/** Every config name a route module can declare, whatever its kind. */
+const CONFIG_EXPORTS = [...new Set(Object.values(KNOWN_EXPORTS).flat()), ...UNSUPPORTED_CONFIG_EXPORTS];
+
+/** What a module's default export turned out to be. */
+type DefaultExport = 'missing' | 'component' | 'not-component';
+
+interface ModuleExports {
+    defaultExport: DefaultExport;
+    /** Named value exports. */
+    names: Set<string>;
+    /** Values of `export const <name> = <string or number literal>`. */
+    literals: Map<string, string | number>;
+    /** The module has syntax errors; Babel recovered what it could. */
+    hasErrors: boolean;
+}
+
+interface CachedExports {
+    mtimeMs: number;
+    exports: ModuleExports | undefined;
+}
+
+const exportsCache = new Map<string, CachedExports>();
+
+function parserPlugins(filePath: string): ParserPlugin[] {
+    const ext = path.extname(filePath);
+    if (ext === '.ts' || ext === '.mts' || ext === '.cts') return ['typescript'];
+    if (ext === '.tsx') return ['typescript', 'jsx'];
+    return ['jsx'];
+}
+
+/** Strips `as` / `satisfies` / `!` / parentheses around an expression. */
+function unwrapExpression(node: t.Node): t.Node {
+    while (
+        node.type === 'TSAsExpression' ||
+        node.type === 'TSSatisfiesExpression' ||
+        node.type === 'TSNonNullExpression' ||
+        node.type === 'ParenthesizedExpression'
+    ) {
+        node = node.expression;
+    }
+    return node;
+}
+
+/**
+ * Whether `node` can be a component. Anything that might evaluate to one —
+ * calls like `memo()` / `forwardRef()`, imported or unknown bindings — is
+ * given the benefit of the doubt; only values that never are (literals,
+ * objects, arrays) are rejected.
+ */
+function isComponentValue(node: t.Node, bindings: Map<string, t.Node | null>, seen = new Set<string>()): boolean {
+    node = unwrapExpression(node);
+    switch (node.type) {
+        case 'StringLiteral':
+        case 'NumericLiteral':
+        case 'BooleanLiteral':
+        case 'NullLiteral':
+        case 'BigIntLiteral':
+        case 'TemplateLiteral':
+        case 'ObjectExpression':
+        case 'ArrayExpression':
+        case 'JSXElement':
+        case 'JSXFragment':
+            return false;
+        case 'Identifier': {
+            if (node.name === 'undefined') return false;
+            if (seen.has(node.name)) return true;
+            seen.add(node.name);
+            const bound = bindings.get(node.name);
+            return bound ? isComponentValue(bound, bindings, seen) : true;
+        }
+        default:
+            return true;
+    }
+}
+
+/** A plain string or number literal (`"weekly"`, `0.8`, `-1`, `` `x` ``). */
+function literalValue(node: t.Node): string | number | undefined {
+    node = unwrapExpression(node);
+    if (node.type === 'StringLiteral' || node.type === 'NumericLiteral') return node.value;
+    if (node.type === 'TemplateLiteral' && node.expressions.length === 0) return node.quasis[0]?.value.cooked ?? undefined;
+    if (node.type === 'UnaryExpression' && node.operator === '-' && node.argument.type === 'NumericLiteral') {
+        return -node.argument.value;
+    }
+    return undefined;
+}
+
+/**
+ * Top-level bindings of the module: name → declaration or initializer, or
+ * null when the value cannot be known (imports, uninitialized variables).
+ */
+function collectBindings(program: t.Program): Map<string, t.Node | null> {
+    const bindings = new Map<string, t.Node | null>();
+    for (const statement of program.body) {
+        const declaration =
+            statement.type === 'ExportNamedDeclaration' && statement.declaration ? statement.declaration : statement;
+        switch (declaration.type) {
+            case 'ImportDeclaration':
+                for (const specifier of declaration.specifiers) bindings.set(specifier.local.name, null);
+                break;
+            case 'FunctionDeclaration':
+            case 'ClassDeclaration':
+                if (declaration.id) bindings.set(declaration.id.name, declaration);
+                break;
+            case 'VariableDeclaration':
+                for (const declarator of declaration.declarations) {
+                    if (declarator.id.type === 'Identifier') {
+                        bindings.set(declarator.id.name, declarator.init ?? null);
+                    }
+                }
+                break;
+        }
+    }
+    return bindings;
+}
+
+/**
+ * Reads the default export, the named value exports and their literal
+ * values from a parsed module.
+ */
+function readExports(program: t.Program): Omit<ModuleExports, 'hasErrors'> {
+    const bindings = collectBindings(program);
+    let defaultExport: DefaultExport = 'missing';
+    const names = new Set<string>();
+    const literals = new Map<string, string | number>();
+
+    for (const statement of program.body) {
+        if (statement.type === 'ExportDefaultDeclaration') {
+            defaultExport = isComponentValue(statement.declaration, bindings) ? 'component' : 'not-component';
+        } else if (statement.type === 'ExportNamedDeclaration') {
+            if (statement.exportKind === 'type') continue;
+            const declaration = statement.declaration;
+            if (declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') {
+                if (declaration.id && !declaration.declare) names.add(declaration.id.name);
+            } else if (declaration?.type === 'VariableDeclaration' && !declaration.declare) {
+                for (const declarator of declaration.declarations) {
+                    if (declarator.id.type !== 'Identifier') continue;
+                    names.add(declarator.id.name);
+                    const value = declaration.kind === 'const' && declarator.init ? literalValue(declarator.init) : undefined;
+                    if (value !== undefined) literals.set(declarator.id.name, value);
+                }
+            }
+            for (const specifier of statement.specifiers) {
+                if (specifier.type === 'ExportNamespaceSpecifier') {
+                    names.add(specifier.exported.name);
+                    continue;
+                }
+                if (specifier.type !== 'ExportSpecifier' || specifier.exportKind === 'type') continue;
+                const exported =
+                    specifier.exported.type === 'Identifier' ? specifier.exported.name : specifier.exported.value;
+                if (exported !== 'default') {
+                    names.add(exported);
+                } else if (statement.source) {
+                    // `export { default } from './Page'` — nothing to look at here.
+                    defaultExport = 'component';
+                } else {
+                    defaultExport = isComponentValue(specifier.local, bindings) ? 'component' : 'not-component';
+                }
+            }
+        }
+    }
+    return { defaultExport, names, literals };
+}
+
+/**
+ * Parsed exports of a file, or undefined when it cannot be read or parsed.
+ */
+function readModuleExports(filePath: string): ModuleExports | undefined {
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(filePath);
+    } catch {
+        exportsCache.delete(filePath);
+        return undefined;
+    }
+    const cached = exportsCache.get(filePath);
+    if (cached && cached.mtimeMs === stat.mtimeMs) return cached.exports;
+
+    let exports: ModuleExports | undefined;
+    try {
+        const ast = parse(fs.readFileSync(filePath, 'utf-8'), {
+            sourceType: 'module',
+            plugins: parserPlugins(filePath),
+            errorRecovery: true,
+        });
+        exports = { ...readExports(ast.program), hasErrors: (ast.errors?.length ?? 0) > 0 };
+    } catch {
+        exports = undefined;
+    }
+    exportsCache.set(filePath, { mtimeMs: stat.mtimeMs, exports });
+    return exports;
+}
+
+/**
+ * Returns the named exports of a file, or an empty set when it cannot be
+ * read.
+ */
+export function getModuleExports(filePath: string): Set<string> {
+    return readModuleExports(filePath)?.names ?? new Set();
+}
+
+/**
+ * True when the module exports `metadata` or `generateMetadata`.
+ */
+export function hasMetadataExport(filePath: string): boolean {
+    const names = getModuleExports(filePath);
+    return names.has('metadata') || names.has('generateMetadata');
+}
+
+/**
+ * Reads the value of `export const <name> = <literal>` when the initializer
+ * is a plain string or number literal; anything computed yields undefined.
+ */
+export function getLiteralExport(filePath: string, name: string): string | number | undefined {
+    return readModuleExports(filePath)?.literals.get(name);
+}
+
+/** What codegen and the checks below read from a module, as a comparable string. */
+function exportsSignature(exports: ModuleExports | undefined): string {
+    if (!exports) return '';
+    return JSON.stringify([exports.defaultExport, [...exports.names].sort(), exports.hasErrors]);
+}
+
+/**
+ * Whether the file's exports changed since they were last read — only then
+ * can an edit change the generated routes or their diagnostics. Files not
+ * read before count as changed.
+ */
+export function haveModuleExportsChanged(filePath: string): boolean {
+    const cached = exportsCache.get(filePath);
+    const current = readModuleExports(filePath);
+    return !cached || exportsSignature(cached.exports) !== exportsSignature(current);
+}
+
+/**
+ * Whether an export the module's kind does not read looks like route config
+ * rather than a helper: a config name of another kind of module, Next.js
+ * segment config the plugin does not implement, or a near miss of either.
+ */
+function looksLikeConfig(name: string): boolean {
+    const lower = name.toLowerCase();
+    return CONFIG_EXPORTS.some((config) => {
+        const configLower = config.toLowerCase();
+        if (lower === configLower) return true;
+        const allowed = config.length >= 10 ? 2 : config.length > 5 ? 1 : 0;
+        return editDistance(lower, configLower) <= allowed;
+    });
+}
+
+/**
+ * Reports route modules without a default component export, or with
+ * exports that look like route config the plugin does not read from them.
+ * Unreadable files and files with syntax errors (Vite's to report) are
+ * skipped.
+ */
+export function checkRouteModuleExports(filePath: string, kind: RouteModuleKind): void {
+    const exports = readModuleExports(filePath);
+    if (!exports || exports.hasErrors) return;
+    const fileName = path.basename(filePath);
+
+    if (exports.defaultExport === 'missing') {
+        reportDiagnostic({
+            code: 'missing-default-export',
+            severity: 'error',
+            message:
+                `${fileName} has no default export — the ${kind} component is rendered ` +
+                `from it. Add \`export default function ...\`.`,
+            file: filePath,
+        });
+    } else if (exports.defaultExport === 'not-component') {
+        reportDiagnostic({
+            code: 'invalid-default-export',
+            severity: 'warning',
+            message: `The default export of ${fileName} is not a React component.`,
+            file: filePath,
+        });
+    }
+
+    const known = KNOWN_EXPORTS[kind];
+    const unknown = [...exports.names].filter((name) => !known.includes(name) && looksLikeConfig(name));
+    if (unknown.length > 0) {
+        reportDiagnostic({
+            code: 'unknown-route-export',
+            severity: 'warning',
+            message:
+                `${fileName} exports ${unknown.map((name) => `"${name}"`).join(', ')}, which ` +
+                `the plugin does not read from a ${fileName} ` +
+                (known.length > 0 ? `(it reads ${known.join(', ')}).` : `(only its default export is used).`),
+            file: filePath,
+        });
+    }
+}
@@ -3,9 +3,19 @@
  * Follows Next.js App Router conventions
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
 import type { RouteNode, ParsedRoute, InterceptedRoute, ParallelSlot, SharedModuleDef, PluginOptions } from './types.js';
+import { reportDiagnostic } from './diagnostics.js';
+import { findRouteConflicts, reportRouteConflicts } from './routeConflicts.js';
+import { checkConventionFiles } from './conventionFiles.js';
+import {
+    directoryHasFile,
+    listSubdirectories,
+    memoizeScan,
+    recordSharedDependency,
+    withRouteScanCache,
+    type RouteScanCache,
+} from './scanCache.js';
 
 const DEFAULT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
 
@@ -64,9 +74,8 @@ function findFileWithExtension(
     extensions: string[]
 ): string | undefined {
     for (const ext of extensions) {
-        const filePath = path.join(basePath, `${fileName}${ext}`);
-        if (fs.existsSync(filePath)) {
-            return filePath;
+        if (directoryHasFile(basePath, `${fileName}${ext}`)) {
+            return path.join(basePath, `${fileName}${ext}`);
         }
     }
     return undefined;
@@ -216,13 +225,11 @@ export function discoverSharedModules(
     return result;
 
     function walk(dir: string): void {
-        if (!fs.existsSync(dir)) return;
-        for (const e of fs.readdirSync(dir, { withFileTypes: true })) {
-            if (!e.isDirectory()) continue;
-            if (e.name.startsWith('_') || IGNORED_DIRS.has(e.name)) continue;
-            const full = path.join(dir, e.name);
-            if (e.name.startsWith('+')) {
-                const parsed = parseSharedDefName(e.name);
+        for (const name of listSubdirectories(dir)) {
+            if (name.startsWith('_') || IGNORED_DIRS.has(name)) continue;
+            const full = path.join(dir, name);
+            if (name.startsWith('+')) {
+                const parsed = parseSharedDefName(name);
                 result.push(parseSharedModuleDef(parsed, full, dir, extensions));
                 continue; // sub-shareds are nested inside, not top-level
             }
@@ -258,16 +265,20 @@ function parseSharedModuleDef(
     containerDir: string,
     extensions: string[]
 ): SharedModuleDef {
+    checkConventionFiles(dirPath, 'shared', extensions);
     return {
         name: parsed.name,
         dirPath,
         containerDir,
         ...(parsed.level !== undefined ? { interceptLevel: parsed.level } : {}),
         layoutPath: findFileWithExtension(dirPath, 'layout', extensions),
+        templatePath: findFileWithExtension(dirPath, 'template', extensions),
         pagePath: findFileWithExtension(dirPath, 'page', extensions),
         loadingPath: findFileWithExtension(dirPath, 'loading', extensions),
         errorPath: findFileWithExtension(dirPath, 'error', extensions),
         notFoundPath: findFileWithExtension(dirPath, 'not-found', extensions),
+        loaderPath: findFileWithExtension(dirPath, 'loader', extensions),
+        actionPath: findFileWithExtension(dirPath, 'action', extensions),
         tree: parseSharedTreeRecursive(dirPath, extensions, ''),
         subShareds: {},
     };
@@ -283,15 +294,13 @@ function parseSharedTreeRecursive(
     extensions: string[],
     parentPath: string
 ): RouteNode[] {
-    if (!fs.existsSync(dirPath)) return [];
     const nodes: RouteNode[] = [];
-    for (const e of fs.readdirSync(dirPath, { withFileTypes: true })) {
-        if (!e.isDirectory()) continue;
-        if (e.name.startsWith('_') || IGNORED_DIRS.has(e.name)) continue;
-        const full = path.join(dirPath, e.name);
+    for (const dirName of listSubdirectories(dirPath)) {
+        if (dirName.startsWith('_') || IGNORED_DIRS.has(dirName)) continue;
+        const full = path.join(dirPath, dirName);
 
-        if (e.name.startsWith('+')) {
-            const parsed = parseSharedDefName(e.name);
+        if (dirName.startsWith('+')) {
+            const parsed = parseSharedDefName(dirName);
             const subName = parsed.name;
             const subDef = parseSharedModuleDef(parsed, full, dirPath, extensions);
             // Placeholder carries its position in the shared subtree as a
@@ -305,7 +314,7 @@ function parseSharedTreeRecursive(
                 parentPath + (subUrlSeg ? '/' + subUrlSeg : '')
             ).replace(/\/+/g, '/');
             nodes.push({
-                segment: e.name,
+                segment: dirName,
                 path: placeholderPath,
                 isDynamic: subSegInfo.isDynamic,
                 isCatchAll: subSegInfo.isCatchAll,
@@ -319,13 +328,14 @@ function parseSharedTreeRecursive(
             continue;
         }
 
-        const seg = parseSegment(e.name);
+        const seg = parseSegment(dirName);
         const routePath = seg.isGroup
             ? parentPath
             : parentPath + (seg.routeSegment ? `/${seg.routeSegment}` : '');
+        checkConventionFiles(full, 'shared', extensions);
 
         nodes.push({
-            segment: e.name,
+            segment: dirName,
             path: routePath || '/',
             isDynamic: seg.isDynamic,
             isCatchAll: seg.isCatchAll,
@@ -334,9 +344,12 @@ function parseSharedTreeRecursive(
             paramName: seg.paramName,
             pagePath: findFileWithExtension(full, 'page', extensions),
             layoutPath: findFileWithExtension(full, 'layout', extensions),
+            templatePath: findFileWithExtension(full, 'template', extensions),
             loadingPath: findFileWithExtension(full, 'loading', extensions),
             errorPath: findFileWithExtension(full, 'error', extensions),
             notFoundPath: findFileWithExtension(full, 'not-found', extensions),
+            loaderPath: findFileWithExtension(full, 'loader', extensions),
+            actionPath: findFileWithExtension(full, 'action', extensions),
             children: parseSharedTreeRecursive(full, extensions, routePath),
         });
     }
@@ -346,9 +359,12 @@ function parseSharedTreeRecursive(
 interface InvocationOverrideFiles {
     pagePath?: string;
     layoutPath?: string;
+    templatePath?: string;
     loadingPath?: string;
     errorPath?: string;
     notFoundPath?: string;
+    loaderPath?: string;
+    actionPath?: string;
     /** `props.tsx` (or .ts/.jsx/.js) — values forwarded to the shared subtree via useSharedProps(). */
     propsPath?: string;
 }
@@ -367,8 +383,8 @@ interface InvocationOverrideRoot extends InvocationOverrideFiles {
 /**
  * Walks the children of a `[+name]/` or `(+name)/` invocation directory,
  * collecting `[-omit]/` markers, drill-down dirs that mirror the shared
- * module's structure, and any file overrides (page/layout/loading/error/
- * not-found) that should replace the shared module's files at the same
+ * module's structure, and any file overrides (page/layout/template/loading/
+ * error/not-found/loader/action) that should replace the shared module's files at the same
  * position.
  */
 function parseInvocationOverrideRoot(
@@ -385,23 +401,21 @@ function parseInvocationOverrides(
     dirPath: string,
     extensions: string[]
 ): InvocationOverride[] {
-    if (!fs.existsSync(dirPath)) return [];
     const out: InvocationOverride[] = [];
-    for (const e of fs.readdirSync(dirPath, { withFileTypes: true })) {
-        if (!e.isDirectory()) continue;
-        if (e.name.startsWith('_') || IGNORED_DIRS.has(e.name)) continue;
+    for (const dirName of listSubdirectories(dirPath)) {
+        if (dirName.startsWith('_') || IGNORED_DIRS.has(dirName)) continue;
         // Inside an invocation we accept the shorter `-name/` form alongside
         // `[-name]/` — both express the same intent and the bracketed form is
         // visually noisy for parametric names like `[-[id]]` vs `-[id]`.
-        const omitName = matchOmit(e.name, true);
+        const omitName = matchOmit(dirName, true);
         if (omitName) {
             out.push({ type: 'omit', name: omitName });
             continue;
         }
-        const full = path.join(dirPath, e.name);
+        const full = path.join(dirPath, dirName);
         out.push({
             type: 'drill',
-            name: e.name,
+            name: dirName,
             ...readOverrideFiles(full, extensions),
             children: parseInvocationOverrides(full, extensions),
         });
@@ -410,18 +424,25 @@ function parseInvocationOverrides(
 }
 
 function readOverrideFiles(dirPath: string, extensions: string[]): InvocationOverrideFiles {
+    checkConventionFiles(dirPath, 'invocation', extensions);
     const files: InvocationOverrideFiles = {};
     const p = findFileWithExtension(dirPath, 'page', extensions);
     const l = findFileWithExtension(dirPath, 'layout', extensions);
+    const tp = findFileWithExtension(dirPath, 'template', extensions);
     const ld = findFileWithExtension(dirPath, 'loading', extensions);
     const er = findFileWithExtension(dirPath, 'error', extensions);
     const nf = findFileWithExtension(dirPath, 'not-found', extensions);
+    const lo = findFileWithExtension(dirPath, 'loader', extensions);
+    const ac = findFileWithExtension(dirPath, 'action', extensions);
     const pr = findFileWithExtension(dirPath, 'props', extensions);
     if (p) files.pagePath = p;
     if (l) files.layoutPath = l;
+    if (tp) files.templatePath = tp;
     if (ld) files.loadingPath = ld;
     if (er) files.errorPath = er;
     if (nf) files.notFoundPath = nf;
+    if (lo) files.loaderPath = lo;
+    if (ac) files.actionPath = ac;
     if (pr) files.propsPath = pr;
     return files;
 }
@@ -482,7 +503,8 @@ function graftSubtree(
     sharedNodes: RouteNode[],
     overrides: InvocationOverride[],
     urlBase: string,
-    activeAcc: string[]
+    activeAcc: string[],
+    omittedAcc: string[]
 ): RouteNode[] {
     // `omitted`           — drops both canonical AND intercept variants for the
     //                       given name (`[-id]/` or `-id/`).
@@ -525,8 +547,14 @@ function graftSubtree(
         if (sn.isSharedDef && sn.sharedDef) {
             const sub = sn.sharedDef;
             const isIntercept = sub.interceptLevel !== undefined;
-            if (omitted.has(sub.name)) continue;
-            if (isIntercept && omittedInterceptOnly.has(sub.name)) continue;
+            if (omitted.has(sub.name)) {
+                if (!omittedAcc.includes(sub.name)) omittedAcc.push(sub.name);
+                continue;
+            }
+            if (isIntercept && omittedInterceptOnly.has(sub.name)) {
+                omittedAcc.push(`(intercept) ${sub.name}`);
+                continue;
+            }
             // Track active sub-shareds for the parent invocation's
             // SharedModuleProvider. Push only on the canonical variant when
             // a canonical sibling exists (to avoid double-counting the same
@@ -572,12 +600,16 @@ function graftSubtree(
                 ? (canonicalSiblingByName.get(sub.name)?.tree ?? sub.tree)
                 : sub.tree;
             const subActive: string[] = [];
-            const subChildren = graftSubtree(childrenTemplate, subOv, subBase, subActive);
+            const subOmitted: string[] = [];
+            const subChildren = graftSubtree(childrenTemplate, subOv, subBase, subActive, subOmitted);
             const subPage = pickOverride(subDrill, sub.pagePath, 'pagePath');
             const subLayout = pickOverride(subDrill, sub.layoutPath, 'layoutPath');
+            const subTemplate = pickOverride(subDrill, sub.templatePath, 'templatePath');
             const subLoading = pickOverride(subDrill, sub.loadingPath, 'loadingPath');
             const subError = pickOverride(subDrill, sub.errorPath, 'errorPath');
             const subNotFound = pickOverride(subDrill, sub.notFoundPath, 'notFoundPath');
+            const subLoader = pickOverride(subDrill, sub.loaderPath, 'loaderPath');
+            const subAction = pickOverride(subDrill, sub.actionPath, 'actionPath');
             const subProps = subDrill?.propsPath;
             const subNode: RouteNode = {
                 segment: '+' + sub.name,
@@ -588,13 +620,20 @@ function graftSubtree(
                 isGroup: false,
                 ...(sn.paramName ? { paramName: sn.paramName } : {}),
                 ...(subLayout ? { layoutPath: subLayout } : {}),
+                ...(subTemplate ? { templatePath: subTemplate } : {}),
                 ...(subPage ? { pagePath: subPage } : {}),
                 ...(subLoading ? { loadingPath: subLoading } : {}),
                 ...(subError ? { errorPath: subError } : {}),
                 ...(subNotFound ? { notFoundPath: subNotFound } : {}),
+                ...(subLoader ? { loaderPath: subLoader } : {}),
+                ...(subAction ? { actionPath: subAction } : {}),
                 ...(subProps ? { sharedPropsPath: subProps } : {}),
                 children: subChildren,
-                sharedInvocation: { name: sub.name, activeSubShareds: subActive },
+                sharedInvocation: {
+                    name: sub.name,
+                    activeSubShareds: subActive,
+                    ...(subOmitted.length > 0 ? { omittedSubShareds: subOmitted } : {}),
+                },
             };
             if (isIntercept) {
                 // Source = the URL where the parent shared is mounted (the
@@ -609,24 +648,30 @@ function graftSubtree(
         const newPath = (urlBase + sn.path).replace(/\/+/g, '/') || '/';
         const drill = drills.get(sn.segment);
         const childOv = drill?.children ?? [];
-        const grafted = graftSubtree(sn.children, childOv, urlBase, activeAcc);
+        const grafted = graftSubtree(sn.children, childOv, urlBase, activeAcc, omittedAcc);
         // File overrides drilled into the invoker site replace the shared's
         // files at the matching position. Helps customise individual leaves
         // without forking the shared module.
         const ovPage = pickOverride(drill, sn.pagePath, 'pagePath');
         const ovLayout = pickOverride(drill, sn.layoutPath, 'layoutPath');
+        const ovTemplate = pickOverride(drill, sn.templatePath, 'templatePath');
         const ovLoading = pickOverride(drill, sn.loadingPath, 'loadingPath');
         const ovError = pickOverride(drill, sn.errorPath, 'errorPath');
         const ovNotFound = pickOverride(drill, sn.notFoundPath, 'notFoundPath');
+        const ovLoader = pickOverride(drill, sn.loaderPath, 'loaderPath');
+        const ovAction = pickOverride(drill, sn.actionPath, 'actionPath');
         const ovProps = drill?.propsPath;
         result.push({
             ...sn,
             path: newPath,
             ...(ovPage ? { pagePath: ovPage } : { pagePath: undefined }),
             ...(ovLayout ? { layoutPath: ovLayout } : { layoutPath: undefined }),
+            ...(ovTemplate ? { templatePath: ovTemplate } : { templatePath: undefined }),
             ...(ovLoading ? { loadingPath: ovLoading } : { loadingPath: undefined }),
             ...(ovError ? { errorPath: ovError } : { errorPath: undefined }),
             ...(ovNotFound ? { notFoundPath: ovNotFound } : { notFoundPath: undefined }),
+            ...(ovLoader ? { loaderPath: ovLoader } : { loaderPath: undefined }),
+            ...(ovAction ? { actionPath: ovAction } : { actionPath: undefined }),
             ...(ovProps ? { sharedPropsPath: ovProps } : {}),
             children: grafted,
         });
@@ -659,12 +704,16 @@ function graftSharedModule(
     rootOverrides: InvocationOverrideRoot
 ): RouteNode {
     const active: string[] = [];
-    const children = graftSubtree(shared.tree, rootOverrides.children, urlBase, active);
+    const omitted: string[] = [];
+    const children = graftSubtree(shared.tree, rootOverrides.children, urlBase, active, omitted);
     const page = rootOverrides.pagePath ?? shared.pagePath;
     const layout = rootOverrides.layoutPath ?? shared.layoutPath;
+    const template = rootOverrides.templatePath ?? shared.templatePath;
     const loading = rootOverrides.loadingPath ?? shared.loadingPath;
     const error = rootOverrides.errorPath ?? shared.errorPath;
     const notFound = rootOverrides.notFoundPath ?? shared.notFoundPath;
+    const loader = rootOverrides.loaderPath ?? shared.loaderPath;
+    const action = rootOverrides.actionPath ?? shared.actionPath;
     const props = rootOverrides.propsPath;
     return {
         segment: '+' + shared.name,
@@ -674,13 +723,20 @@ function graftSharedModule(
         isOptionalCatchAll: false,
         isGroup: false,
         ...(layout ? { layoutPath: layout } : {}),
+        ...(template ? { templatePath: template } : {}),
         ...(page ? { pagePath: page } : {}),
         ...(loading ? { loadingPath: loading } : {}),
         ...(error ? { errorPath: error } : {}),
         ...(notFound ? { notFoundPath: notFound } : {}),
+        ...(loader ? { loaderPath: loader } : {}),
+        ...(action ? { actionPath: action } : {}),
         ...(props ? { sharedPropsPath: props } : {}),
         children,
-        sharedInvocation: { name: shared.name, activeSubShareds: active },
+        sharedInvocation: {
+            name: shared.name,
+            activeSubShareds: active,
+            ...(omitted.length > 0 ? { omittedSubShareds: omitted } : {}),
+        },
     };
 }
 
@@ -688,6 +744,8 @@ function graftSharedModule(
  * Recursively scans the app directory and builds both the route tree and any
  * parallel-route slots (`@name/`) declared at this level. Slots are attached
  * to the node of the directory they belong to (i.e. siblings of `layout.tsx`).
+ * Inside parseAppRouter() with a scan cache, unchanged directories are
+ * returned from the cache.
  */
 export function scanAppDirectoryWithSlots(
     dirPath: string,
@@ -695,37 +753,42 @@ export function scanAppDirectoryWithSlots(
     parentPath: string = '',
     ctx: ScanContext = { routeAncestors: [] }
 ): { nodes: RouteNode[]; slots: ParallelSlot[] } {
-    if (!fs.existsSync(dirPath)) {
-        return { nodes: [], slots: [] };
-    }
+    // Everything the result depends on besides the directory contents and
+    // the shared registry (tracked by the cache itself).
+    const key = [dirPath, parentPath, ctx.routeAncestors.join('/'), ctx.interceptSource ?? ''].join('\0');
+    return memoizeScan(key, dirPath, () => scanDirectoryWithSlots(dirPath, extensions, parentPath, ctx));
+}
 
-    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+function scanDirectoryWithSlots(
+    dirPath: string,
+    extensions: string[],
+    parentPath: string,
+    ctx: ScanContext
+): { nodes: RouteNode[]; slots: ParallelSlot[] } {
     const nodes: RouteNode[] = [];
     const slots: ParallelSlot[] = [];
 
-    for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
-
+    for (const dirName of listSubdirectories(dirPath)) {
         // Ignore directories starting with _ (private folders)
-        if (entry.name.startsWith('_')) continue;
+        if (dirName.startsWith('_')) continue;
 
         // Ignore common directories that are not routes
-        if (IGNORED_DIRS.has(entry.name)) {
+        if (IGNORED_DIRS.has(dirName)) {
             continue;
         }
 
-        const fullDirPath = path.join(dirPath, entry.name);
+        const fullDirPath = path.join(dirPath, dirName);
 
         // `+name/` — shared route module DEFINITION. Discovered separately;
         // does not contribute to the regular route tree.
-        if (entry.name.startsWith('+')) {
+        if (dirName.startsWith('+')) {
             continue;
         }
 
         // `[-name]/` — omission marker only meaningful inside a `[+name]`/
         // `(+name)` invocation site (where parseInvocationOverrides handles
         // it). Stray markers are silently dropped.
-        if (SHARED_OMIT_RE.test(entry.name)) {
+        if (SHARED_OMIT_RE.test(dirName)) {
             continue;
         }
 
@@ -733,13 +796,14 @@ export function scanAppDirectoryWithSlots(
         // intercept marker (`(.)`/`(..)`/`(...)`/etc.) so a shared module can
         // be mounted as an interception, e.g. `feed/(..)[+photoModal]/`
         // intercepts the URL produced by `+photoModal` from the `/feed` source.
-        const interceptPrefixMatch = entry.name.match(INTERCEPTING_MARKER_RE);
-        const invocationCandidate = interceptPrefixMatch ? interceptPrefixMatch[2]! : entry.name;
+        const interceptPrefixMatch = dirName.match(INTERCEPTING_MARKER_RE);
+        const invocationCandidate = interceptPrefixMatch ? interceptPrefixMatch[2]! : dirName;
         const bracketMatch = invocationCandidate.match(SHARED_INVOKE_BRACKET_RE);
         const parenMatch = invocationCandidate.match(SHARED_INVOKE_PAREN_RE);
         if (bracketMatch || parenMatch) {
             const invokeName = (bracketMatch || parenMatch)![1]!;
             const style: 'bracket' | 'paren' = bracketMatch ? 'bracket' : 'paren';
+            recordSharedDependency(invokeName);
 
             // Resolve the intercept marker (if any) into a climb level so we
             // can compute the target URL the same way ordinary intercepting
@@ -754,11 +818,15 @@ export function scanAppDirectoryWithSlots(
 
             const shared = findVisibleShared(ctx.sharedRegistry, invokeName, fullDirPath);
             if (!shared) {
-                console.warn(
-                    `[vite-plugin-react-app-router] cannot resolve shared module ` +
-                    `"${invokeName}" at ${fullDirPath} — no visible \`+${invokeName}/\` ` +
-                    `definition found among sibling sub-directories.`
-                );
+                reportDiagnostic({
+                    code: 'unresolved-shared-module',
+                    severity: 'warning',
+                    message:
+                        `cannot resolve shared module ` +
+                        `"${invokeName}" at ${fullDirPath} — no visible \`+${invokeName}/\` ` +
+                        `definition found among sibling sub-directories.`,
+                    file: fullDirPath,
+                });
                 continue;
             }
             // Template-side fallback: when the consumer did not prefix the
@@ -769,25 +837,6 @@ export function scanAppDirectoryWithSlots(
                 interceptLevel = shared.interceptLevel;
             }
             const isInterceptInvocation = interceptLevel !== undefined;
-            // Paren-style invocations are transparent (no URL segment), so the
-            // shared module's own page would render at the same URL as the
-            // invoker's parent page — a routing conflict in react-router.
-            // Detect and warn so the user can pick a side. (Skipped for
-            // intercepting paren invocations since the source page lives at
-            // a different URL than the target.)
-            if (style === 'paren' && !isInterceptInvocation) {
-                const parentPagePath = findFileWithExtension(dirPath, 'page', extensions);
-                const sharedTopPagePath =
-                    findFileWithExtension(fullDirPath, 'page', extensions) ?? shared.pagePath;
-                if (parentPagePath && sharedTopPagePath) {
-                    console.warn(
-                        `[vite-plugin-react-app-router] (+${invokeName}) at ${fullDirPath} ` +
-                        `overlaps a sibling page.tsx at ${parentPagePath}. ` +
-                        `Paren invocations must not have a sibling page when the shared ` +
-                        `module also defines a page — remove one to resolve the conflict.`
-                    );
-                }
-            }
             const overridesRoot = parseInvocationOverrideRoot(fullDirPath, extensions);
             // Parametric invocations (`[+[id]]/`) produce dynamic URL segments
             // by running the inner name through parseSegment. Static names map
@@ -833,8 +882,9 @@ export function scanAppDirectoryWithSlots(
         // Parallel route slot: @name/ — siblings of layout.tsx, owned by the
         // current directory's segment. The slot is matched independently
         // against the URL, so its tree starts from the same parentPath.
-        if (entry.name.startsWith('@')) {
-            const slotName = entry.name.slice(1);
+        if (dirName.startsWith('@')) {
+            const slotName = dirName.slice(1);
+            checkConventionFiles(fullDirPath, 'slot', extensions);
             const slotResult = scanAppDirectoryWithSlots(
                 fullDirPath,
                 extensions,
@@ -846,6 +896,7 @@ export function scanAppDirectoryWithSlots(
                 tree: slotResult.nodes,
                 pagePath: findFileWithExtension(fullDirPath, 'page', extensions),
                 layoutPath: findFileWithExtension(fullDirPath, 'layout', extensions),
+                templatePath: findFileWithExtension(fullDirPath, 'template', extensions),
                 loadingPath: findFileWithExtension(fullDirPath, 'loading', extensions),
                 errorPath: findFileWithExtension(fullDirPath, 'error', extensions),
                 notFoundPath: findFileWithExtension(fullDirPath, 'not-found', extensions),
@@ -854,10 +905,11 @@ export function scanAppDirectoryWithSlots(
             continue;
         }
 
-        const segmentInfo = parseSegment(entry.name);
+        const segmentInfo = parseSegment(dirName);
 
         // Entering a new intercepting subtree (only at the top of an intercept chain)
         if (segmentInfo.interceptLevel !== undefined && !ctx.interceptSource) {
+            checkConventionFiles(fullDirPath, 'intercept', extensions);
             const sourcePath = parentPath || '/';
             const climbed = resolveInterceptBase(ctx.routeAncestors, segmentInfo.interceptLevel);
             const targetAncestors = segmentInfo.routeSegment
@@ -874,7 +926,7 @@ export function scanAppDirectoryWithSlots(
             const childResult = scanAppDirectoryWithSlots(fullDirPath, extensions, targetPath, childCtx);
 
             const node: RouteNode = {
-                segment: entry.name,
+                segment: dirName,
                 path: targetPath,
                 isDynamic: segmentInfo.isDynamic,
                 isCatchAll: segmentInfo.isCatchAll,
@@ -905,6 +957,7 @@ export function scanAppDirectoryWithSlots(
                 ? [...ctx.routeAncestors, segmentInfo.routeSegment]
                 : ctx.routeAncestors;
 
+        checkConventionFiles(fullDirPath, 'route', extensions);
         const childResult = scanAppDirectoryWithSlots(fullDirPath, extensions, routePath, {
             routeAncestors: childAncestors,
             interceptSource: ctx.interceptSource,
@@ -912,7 +965,7 @@ export function scanAppDirectoryWithSlots(
         });
 
         const node: RouteNode = {
-            segment: entry.name,
+            segment: dirName,
             path: routePath || '/',
             isDynamic: segmentInfo.isDynamic,
             isCatchAll: segmentInfo.isCatchAll,
@@ -923,9 +976,12 @@ export function scanAppDirectoryWithSlots(
             interceptSource: ctx.interceptSource,
             pagePath: findFileWithExtension(fullDirPath, 'page', extensions),
             layoutPath: findFileWithExtension(fullDirPath, 'layout', extensions),
+            templatePath: findFileWithExtension(fullDirPath, 'template', extensions),
             loadingPath: findFileWithExtension(fullDirPath, 'loading', extensions),
             errorPath: findFileWithExtension(fullDirPath, 'error', extensions),
             notFoundPath: findFileWithExtension(fullDirPath, 'not-found', extensions),
+            loaderPath: findFileWithExtension(fullDirPath, 'loader', extensions),
+            actionPath: findFileWithExtension(fullDirPath, 'action', extensions),
             children: childResult.nodes,
             ...(childResult.slots.length > 0 ? { slots: childResult.slots } : {}),
         };
@@ -963,13 +1019,16 @@ export function scanAppDirectory(
 export function getRootPage(
     appDir: string,
     extensions: string[] = DEFAULT_EXTENSIONS
-): { pagePath?: string; layoutPath?: string; loadingPath?: string; errorPath?: string; notFoundPath?: string } {
+): { pagePath?: string; layoutPath?: string; templatePath?: string; loadingPath?: string; errorPath?: string; notFoundPath?: string; loaderPath?: string; actionPath?: string } {
     return {
         pagePath: findFileWithExtension(appDir, 'page', extensions),
         layoutPath: findFileWithExtension(appDir, 'layout', extensions),
+        templatePath: findFileWithExtension(appDir, 'template', extensions),
         loadingPath: findFileWithExtension(appDir, 'loading', extensions),
         errorPath: findFileWithExtension(appDir, 'error', extensions),
         notFoundPath: findFileWithExtension(appDir, 'not-found', extensions),
+        loaderPath: findFileWithExtension(appDir, 'loader', extensions),
+        actionPath: findFileWithExtension(appDir, 'action', extensions),
     };
 }
 
@@ -980,6 +1039,8 @@ interface ParentContext {
     notFoundPath?: string;
     /** Map of layout path to its specific not-found component */
     layoutNotFoundMap: Map<string, string>;
+    /** The `*` of the path comes from an optional catch-all */
+    optionalCatchAll?: boolean;
 }
 
 export interface FlattenedRoutes {
@@ -1008,6 +1069,7 @@ export function flattenRoutes(
             errorPath: rootContext.errorPath || parentContext.errorPath,
             notFoundPath: rootContext.notFoundPath || parentContext.notFoundPath,
             layoutNotFoundMap: new Map(parentContext.layoutNotFoundMap),
+            optionalCatchAll: parentContext.optionalCatchAll,
         }
         : parentContext;
 
@@ -1045,6 +1107,7 @@ export function flattenRoutes(
             errorPath: node.errorPath || context.errorPath,
             notFoundPath: node.notFoundPath || context.notFoundPath,
             layoutNotFoundMap: currentLayoutNotFoundMap,
+            optionalCatchAll: node.isCatchAll ? false : node.isOptionalCatchAll || context.optionalCatchAll,
         };
 
         // If the node has a page, add the route
@@ -1057,6 +1120,7 @@ export function flattenRoutes(
                 errorPath: currentContext.errorPath,
                 notFoundPath: currentContext.notFoundPath,
                 layoutNotFoundMap: new Map(currentContext.layoutNotFoundMap),
+                isOptionalCatchAll: currentContext.optionalCatchAll,
             });
         }
 
@@ -1099,9 +1163,15 @@ export function pathToIdentifier(routePath: string): string {
 }
 
 /**
- * Complete parse of the app directory
+ * Complete parse of the app directory. Pass a scan cache (see
+ * createRouteScanCache) to reuse the unchanged parts of a previous parse.
+ * Diagnostics name files relative to `rootDir` (the Vite root).
  */
-export function parseAppRouter(options: PluginOptions = {}): {
+export function parseAppRouter(
+    options: PluginOptions = {},
+    cache?: RouteScanCache,
+    rootDir: string = process.cwd()
+): {
     routes: ParsedRoute[];
     intercepts: InterceptedRoute[];
     tree: RouteNode[];
@@ -1110,12 +1180,23 @@ export function parseAppRouter(options: PluginOptions = {}): {
     rootError?: string;
     rootLoading?: string;
     rootNotFound?: string;
+    /** Root template.tsx (remounted on every navigation). */
+    rootTemplate?: string;
+    /** Root loader.ts (react-router data loader for the app root segment). */
+    rootLoader?: string;
+    /** Root action.ts (react-router form action for the app root segment). */
+    rootAction?: string;
     /** Parallel-route slots owned by the app root segment. */
     rootSlots?: ParallelSlot[];
 } {
+    return withRouteScanCache(cache, () => parseAppDirectory(options, rootDir));
+}
+
+function parseAppDirectory(options: PluginOptions, rootDir: string): ReturnType<typeof parseAppRouter> {
     const appDir = options.appDir || 'src/app';
     const extensions = options.extensions || DEFAULT_EXTENSIONS;
 
+    checkConventionFiles(appDir, 'root', extensions);
     const sharedRegistry = discoverSharedModules(appDir, extensions);
     const scanResult = scanAppDirectoryWithSlots(appDir, extensions, '', {
         routeAncestors: [],
@@ -1149,6 +1230,8 @@ export function parseAppRouter(options: PluginOptions = {}): {
         });
     }
 
+    reportRouteConflicts(findRouteConflicts(tree, root.pagePath, rootSlots), rootDir);
+
     return {
         routes,
         intercepts,
@@ -1158,6 +1241,9 @@ export function parseAppRouter(options: PluginOptions = {}): {
         rootError: root.errorPath,
         rootLoading: root.loadingPath,
         rootNotFound: root.notFoundPath,
+        rootTemplate: root.templatePath,
+        rootLoader: root.loaderPath,
+        rootAction: root.actionPath,
         ...(rootSlots.length > 0 ? { rootSlots } : {}),
     };
 }
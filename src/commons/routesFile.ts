@@ -0,0 +1,194 @@
+/**
+ * Routes file (`emitFile` option)
+ *
+ * Writes the generated routes module to a real `.tsx` file, which the build's
+ * virtual module re-exports, so editors can follow `routes` into the pages,
+ * `tsc` type-checks the wiring and route tree changes show up in diffs. The
+ * code is the routes code without mode-specific parts, with root-relative
+ * imports (`/src/app/page`) made relative to the file and type annotations
+ * where inference alone would not match react-router's types.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from '@babel/parser';
+import * as t from '@babel/types';
+import _generate from '@babel/generator';
+import type { PluginOptions } from './types.js';
+
+const generate = typeof _generate === 'function' ? _generate : (_generate as { default: typeof _generate }).default;
+
+const RUNTIME_MODULE = 'vite-plugin-react-app-router/runtime';
+
+const FILE_HEADER = [
+    '// Generated by vite-plugin-react-app-router from the app directory. Do not edit.',
+    '// Rewritten by the dev server and by `vite build` whenever the routes change.',
+    '',
+].join('\n');
+
+/**
+ * Resolves the routes file path from the `emitFile` option (relative to the
+ * Vite root), or `undefined` when the option is not set.
+ */
+export function resolveRoutesFilePath(rootDir: string, emitFile: PluginOptions['emitFile']): string | undefined {
+    if (!emitFile) return undefined;
+    return path.isAbsolute(emitFile) ? emitFile : path.resolve(rootDir, emitFile);
+}
+
+/**
+ * Code of the virtual module when the routes live in `filePath`.
+ */
+export function generateRoutesFileReExport(filePath: string): string {
+    const source = JSON.stringify(filePath.replace(/\\/g, '/'));
+    return `export * from ${source};\nexport { default } from ${source};\n`;
+}
+
+/** `/src/app/page` → `../src/app/page` as seen from the routes file. */
+function relativeSpecifier(specifier: string, fileDir: string, rootDir: string): string {
+    const relative = path.relative(fileDir, path.join(rootDir, specifier)).replace(/\\/g, '/');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/** `AppRouteObject[]` (the runtime's PreloadableRouteObject). */
+function routeArrayType(): t.TSType {
+    return t.tsArrayType(t.tsTypeReference(t.identifier('AppRouteObject')));
+}
+
+/**
+ * Adds the annotations the generated declarations need: route tables typed
+ * as route objects (inferred object literals have `index: boolean`) and the
+ * parameters of `createAppRoot`.
+ */
+function annotate(program: t.Program): void {
+    /** Type-only imports the annotations use: local name → [imported name, module]. */
+    const typeImports = new Map<string, [string, string]>();
+
+    for (const statement of program.body) {
+        const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+        if (t.isVariableDeclaration(declaration)) {
+            for (const declarator of declaration.declarations) {
+                if (!t.isIdentifier(declarator.id)) continue;
+                if (declarator.id.name === 'routes' && t.isArrayExpression(declarator.init)) {
+                    declarator.id.typeAnnotation = t.tsTypeAnnotation(routeArrayType());
+                    typeImports.set('AppRouteObject', ['PreloadableRouteObject', RUNTIME_MODULE]);
+                } else if (declarator.id.name === '__intercepts__') {
+                    declarator.id.typeAnnotation = t.tsTypeAnnotation(
+                        t.tsArrayType(t.tsTypeReference(t.identifier('InterceptRouteTable')))
+                    );
+                    typeImports.set('InterceptRouteTable', ['InterceptRouteTable', RUNTIME_MODULE]);
+                }
+            }
+        } else if (t.isFunctionDeclaration(declaration) && declaration.id?.name === 'createAppRoot') {
+            const [container, children] = declaration.params;
+            if (t.isIdentifier(container)) {
+                container.typeAnnotation = t.tsTypeAnnotation(t.tsTypeReference(t.identifier('Element')));
+            }
+            if (t.isAssignmentPattern(children) && t.isIdentifier(children.left)) {
+                children.left.typeAnnotation = t.tsTypeAnnotation(t.tsTypeReference(t.identifier('ReactNode')));
+                typeImports.set('ReactNode', ['ReactNode', 'react']);
+            }
+        }
+    }
+    t.traverseFast(program, (node) => {
+        if (!t.isVariableDeclarator(node) || !node.init) return;
+        if (t.isIdentifier(node.id, { name: '__vparr_nav__' })) {
+            // The hard-refresh fix reads `.type` of the navigation entry.
+            node.init = t.tsAsExpression(
+                node.init,
+                t.tsUnionType([
+                    t.tsTypeReference(t.identifier('PerformanceNavigationTiming')),
+                    t.tsUndefinedKeyword(),
+                ])
+            );
+        } else if (t.isIdentifier(node.id, { name: 'ic' }) && t.isMemberExpression(node.init)) {
+            // `__intercepts__[i]` inside its bounds loop (`noUncheckedIndexedAccess`).
+            node.init = t.tsNonNullExpression(node.init);
+        }
+    });
+
+    const specifiersBySource = new Map<string, t.ImportSpecifier[]>();
+    for (const [local, [imported, source]] of typeImports) {
+        const specifiers = specifiersBySource.get(source) ?? [];
+        specifiers.push(t.importSpecifier(t.identifier(local), t.identifier(imported)));
+        specifiersBySource.set(source, specifiers);
+    }
+    for (const [source, specifiers] of [...specifiersBySource].reverse()) {
+        const declaration = t.importDeclaration(specifiers, t.stringLiteral(source));
+        declaration.importKind = 'type';
+        program.body.unshift(declaration);
+    }
+}
+
+/**
+ * Drops the import specifiers the module never reads — the generator imports
+ * some helpers unconditionally, which `noUnusedLocals` would reject.
+ */
+function removeUnusedImports(program: t.Program): void {
+    const used = new Set<string>();
+    for (const statement of program.body) {
+        if (t.isImportDeclaration(statement)) continue;
+        t.traverseFast(statement, (node) => {
+            if (t.isIdentifier(node)) used.add(node.name);
+        });
+    }
+    program.body = program.body.filter((statement) => {
+        if (!t.isImportDeclaration(statement) || statement.specifiers.length === 0) return true;
+        statement.specifiers = statement.specifiers.filter((specifier) => used.has(specifier.local.name));
+        return statement.specifiers.length > 0;
+    });
+}
+
+/**
+ * Turns the routes module code into the content of the routes file at
+ * `filePath`.
+ */
+export function generateRoutesFile(code: string, filePath: string, rootDir: string): string {
+    const fileDir = path.dirname(filePath);
+    const ast = parse(code, { sourceType: 'module', plugins: ['typescript'] });
+    const rewrite = (source: t.StringLiteral | null | undefined) => {
+        if (source && source.value.startsWith('/')) {
+            source.value = relativeSpecifier(source.value, fileDir, rootDir);
+        }
+    };
+
+    t.traverseFast(ast.program, (node) => {
+        if (t.isImportDeclaration(node) || t.isExportNamedDeclaration(node) || t.isExportAllDeclaration(node)) {
+            rewrite(node.source);
+        } else if (t.isCallExpression(node) && t.isImport(node.callee) && t.isStringLiteral(node.arguments[0])) {
+            rewrite(node.arguments[0]);
+        }
+    });
+    removeUnusedImports(ast.program);
+    annotate(ast.program);
+
+    return FILE_HEADER + generate(ast.program, { comments: true, compact: false }).code + '\n';
+}
+
+/**
+ * Writes the routes file, skipping the write when the content is unchanged
+ * so the dev server does not see a change on every regeneration. Returns
+ * true when the file was (re)written.
+ */
+export function writeRoutesFile(filePath: string, content: string): boolean {
+    if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) {
+        return false;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return true;
+}
+
+/**
+ * Writes the routes file of the `emitFile` option from `code`, which must be
+ * the routes code without mode-specific parts — the dev server's HMR wiring
+ * or the guards of a prerendered build — so the file does not change between
+ * `vite` and `vite build`. Returns the file path, or `undefined` when the
+ * option is not set.
+ */
+export function emitRoutesFile(rootDir: string, emitFile: PluginOptions['emitFile'], code: string): string | undefined {
+    const filePath = resolveRoutesFilePath(rootDir, emitFile);
+    if (filePath) {
+        writeRoutesFile(filePath, generateRoutesFile(code, filePath, rootDir));
+    }
+    return filePath;
+}
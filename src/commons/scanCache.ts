@@ -0,0 +1,198 @@
+/**
+ * Route scan cache
+ *
+ * Keeps the results of scanning the app directory between parses so the dev
+ * server only re-reads what a watcher event touched. Two layers:
+ *
+ * - directory listings (sub-directory names and file names), which replace
+ *   the per-convention-file `existsSync` probes;
+ * - memoized `scanAppDirectoryWithSlots` results per directory, together
+ *   with the shared-module names their invocations resolved (or failed to
+ *   resolve) and the diagnostics they reported.
+ *
+ * A change drops the listings of the touched directory, the memoized scans
+ * of that directory and its ancestors, and — for changes inside or of a
+ * `+name/` definition — every scan that grafted `name`. Untouched sibling
+ * subtrees are reused as-is, so they must never be mutated after a scan.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ParallelSlot, RouteNode } from './types.js';
+import { collectDiagnostics, reportDiagnostic, type Diagnostic } from './diagnostics.js';
+
+interface DirectoryListing {
+    /** Sub-directory names, in `readdir` order. */
+    dirs: string[];
+    files: Set<string>;
+}
+
+interface CachedScan {
+    dirPath: string;
+    result: { nodes: RouteNode[]; slots: ParallelSlot[] };
+    /** Shared-module names invoked anywhere in the scanned subtree. */
+    sharedNames: Set<string>;
+    diagnostics: Diagnostic[];
+}
+
+export interface RouteScanCache {
+    listings: Map<string, DirectoryListing | null>;
+    scans: Map<string, CachedScan>;
+}
+
+let activeCache: RouteScanCache | undefined;
+/** Dependency sets of the scans currently being computed (innermost last). */
+const scanDependencies: Set<string>[] = [];
+
+export function createRouteScanCache(): RouteScanCache {
+    return { listings: new Map(), scans: new Map() };
+}
+
+/**
+ * Runs `fn` (a parse of the app directory) reading from and filling `cache`.
+ */
+export function withRouteScanCache<T>(cache: RouteScanCache | undefined, fn: () => T): T {
+    const previous = activeCache;
+    activeCache = cache;
+    try {
+        return fn();
+    } finally {
+        activeCache = previous;
+    }
+}
+
+function isSameOrUnder(child: string, ancestor: string): boolean {
+    return child === ancestor || child.startsWith(ancestor + path.sep);
+}
+
+/**
+ * Drops everything a watcher event may have changed. `kind` is `'file'` for
+ * `add`/`unlink` events and `'dir'` for `addDir`/`unlinkDir`.
+ */
+export function invalidateRouteScanCache(
+    cache: RouteScanCache,
+    changedPath: string,
+    kind: 'file' | 'dir'
+): void {
+    const target = path.normalize(changedPath);
+    const parentDir = path.dirname(target);
+
+    cache.listings.delete(parentDir);
+    if (kind === 'dir') {
+        for (const dir of cache.listings.keys()) {
+            if (isSameOrUnder(dir, target)) cache.listings.delete(dir);
+        }
+    }
+
+    // `+name/` segments along the path — their definitions changed.
+    const sharedNames = target
+        .split(path.sep)
+        .filter((segment) => segment.startsWith('+'))
+        .map(getSharedDefinitionName);
+
+    for (const [key, scan] of cache.scans) {
+        const affected =
+            isSameOrUnder(parentDir, scan.dirPath) ||
+            (kind === 'dir' && isSameOrUnder(scan.dirPath, target)) ||
+            sharedNames.some((name) => scan.sharedNames.has(name));
+        if (affected) cache.scans.delete(key);
+    }
+}
+
+/**
+ * `+(..)name` → `name`, matching how the parser registers definitions.
+ */
+function getSharedDefinitionName(segment: string): string {
+    return segment.slice(1).replace(/^(\(\.\.\.\)|\(\.\)|(?:\(\.\.\))+)/, '');
+}
+
+function readListing(dirPath: string): DirectoryListing | null {
+    if (!fs.existsSync(dirPath)) return null;
+    const dirs: string[] = [];
+    const files = new Set<string>();
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        if (entry.isDirectory()) dirs.push(entry.name);
+        else files.add(entry.name);
+    }
+    return { dirs, files };
+}
+
+function getListing(dirPath: string): DirectoryListing | null {
+    const cache = activeCache!;
+    let listing = cache.listings.get(dirPath);
+    if (listing === undefined) {
+        listing = readListing(dirPath);
+        cache.listings.set(dirPath, listing);
+    }
+    return listing;
+}
+
+/**
+ * Sub-directory names of `dirPath` (empty when it does not exist).
+ */
+export function listSubdirectories(dirPath: string): string[] {
+    if (activeCache) return getListing(dirPath)?.dirs ?? [];
+    return readListing(dirPath)?.dirs ?? [];
+}
+
+/**
+ * File names in `dirPath` (empty when it does not exist).
+ */
+export function listFiles(dirPath: string): string[] {
+    if (activeCache) return [...(getListing(dirPath)?.files ?? [])];
+    return [...(readListing(dirPath)?.files ?? [])];
+}
+
+/**
+ * Whether `dirPath` contains a file named `fileName`.
+ */
+export function directoryHasFile(dirPath: string, fileName: string): boolean {
+    if (activeCache) return getListing(dirPath)?.files.has(fileName) ?? false;
+    return fs.existsSync(path.join(dirPath, fileName));
+}
+
+/**
+ * Records that the scans in progress (the current directory and every
+ * enclosing one) invoked the shared module `name`, so a change to its
+ * definition invalidates them.
+ */
+export function recordSharedDependency(name: string): void {
+    for (const deps of scanDependencies) deps.add(name);
+}
+
+/**
+ * Returns the cached scan for `key`, or runs `compute` and caches it. Cached
+ * diagnostics are reported again so every parse sees the full set.
+ */
+export function memoizeScan(
+    key: string,
+    dirPath: string,
+    compute: () => CachedScan['result']
+): CachedScan['result'] {
+    const cache = activeCache;
+    if (!cache) return compute();
+
+    const cached = cache.scans.get(key);
+    if (cached) {
+        for (const name of cached.sharedNames) recordSharedDependency(name);
+        cached.diagnostics.forEach(reportDiagnostic);
+        return cached.result;
+    }
+
+    const sharedNames = new Set<string>();
+    scanDependencies.push(sharedNames);
+    let collected: { result: CachedScan['result']; diagnostics: Diagnostic[] };
+    try {
+        collected = collectDiagnostics(compute);
+    } finally {
+        scanDependencies.pop();
+    }
+    collected.diagnostics.forEach(reportDiagnostic);
+    cache.scans.set(key, {
+        dirPath,
+        result: collected.result,
+        sharedNames,
+        diagnostics: collected.diagnostics,
+    });
+    return collected.result;
+}
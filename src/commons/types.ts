@@ -15,12 +15,18 @@ export interface RouteNode {
     pagePath?: string;
     /** Absolute path to layout.tsx if it exists */
     layoutPath?: string;
+    /** Absolute path to template.tsx if it exists (layout remounted on navigation) */
+    templatePath?: string;
     /** Absolute path to loading.tsx if it exists */
     loadingPath?: string;
     /** Absolute path to error.tsx if it exists */
     errorPath?: string;
     /** Absolute path to not-found.tsx if it exists */
     notFoundPath?: string;
+    /** Absolute path to loader.ts if it exists (react-router data loader) */
+    loaderPath?: string;
+    /** Absolute path to action.ts if it exists (react-router form action) */
+    actionPath?: string;
     /** Child routes */
     children: RouteNode[];
     /** Is a dynamic parameter? [param] */
@@ -48,6 +54,12 @@ export interface RouteNode {
     sharedInvocation?: {
         name: string;
         activeSubShareds: string[];
+        /**
+         * Sub-shareds dropped by `[-name]/` overrides at this invocation;
+         * `[-(.)name]/`-style omissions of only the intercept variant are
+         * listed as `(intercept) name`.
+         */
+        omittedSubShareds?: string[];
     };
     /**
      * Path to a `props.tsx` (or .ts/.jsx/.js) file declared at this level of
@@ -93,6 +105,9 @@ export interface SharedModuleDef {
     loadingPath?: string;
     errorPath?: string;
     notFoundPath?: string;
+    templatePath?: string;
+    loaderPath?: string;
+    actionPath?: string;
     /**
      * Subtree (children of `+name/`). Nodes with `isSharedDef` flag are
      * placeholders for nested sub-shareds, expanded at invocation time.
@@ -116,6 +131,8 @@ export interface ParallelSlot {
     pagePath?: string;
     /** Slot's own layout.tsx, if any. */
     layoutPath?: string;
+    /** Slot's own template.tsx, if any. */
+    templatePath?: string;
     /** Slot's own loading.tsx, if any. */
     loadingPath?: string;
     /** Slot's own error.tsx, if any. */
@@ -141,6 +158,8 @@ export interface ParsedRoute {
     notFoundPath?: string;
     /** Map of layout path to its specific not-found component (for nested not-found support) */
     layoutNotFoundMap?: Map<string, string>;
+    /** True when the pattern's `*` comes from an optional catch-all ([[...param]]) */
+    isOptionalCatchAll?: boolean;
 }
 
 /**
@@ -167,6 +186,30 @@ export interface InterceptedRoute {
     subtree: RouteNode;
 }
 
+/**
+ * Where the router keeps the current location:
+ * - 'browser': the URL path (history API)
+ * - 'hash': the URL hash (`#/users`), for `file://` shells and static hosts
+ * - 'memory': in memory only, for embedded widgets that must not touch the URL
+ */
+export type RouterMode = 'browser' | 'hash' | 'memory';
+
+/**
+ * How the lazily loaded route files are split into chunks at build time:
+ * - 'per-file': one chunk per page / layout / error file (bundler default)
+ * - 'per-segment': the route files of one folder share a chunk
+ * - 'per-group': the route files under one `(group)` folder share a chunk;
+ *   files outside any group keep the default
+ * - function: receives the file path relative to the app directory (e.g.
+ *   "(admin)/users/page.tsx") and returns a chunk name, or undefined for the
+ *   default
+ */
+export type RouteChunking =
+    | 'per-file'
+    | 'per-segment'
+    | 'per-group'
+    | ((file: string) => string | undefined);
+
 export interface PluginOptions {
     /** App router directory (default: "src/app") */
     appDir?: string;
@@ -184,6 +227,91 @@ export interface PluginOptions {
      * resulting in smaller initial bundle size and better performance.
      */
     lazy?: boolean;
+    /**
+     * Generate a `.d.ts` describing every route pattern and its params, so
+     * `routePath()` targets and `useRouteParams()` results type-check.
+     * - true: writes to `src/app-router.d.ts`
+     * - string path: writes to that file (relative to the Vite root)
+     * Rewritten whenever the app directory changes in dev, and once per build.
+     */
+    dts?: boolean | string;
+    /**
+     * Write the generated routes module to this `.tsx` file (relative to the
+     * Vite root, e.g. ".app-router/routes.gen.tsx"), for go-to-definition
+     * into the pages and type-checking of the generated wiring. Kept up to
+     * date by the dev server and `vite build`, with the same content either
+     * way; `vite build` has `virtual:app-router` re-export it.
+     */
+    emitFile?: string;
+    /**
+     * Router basename — the URL prefix the app is served under (e.g. "/admin").
+     * Defaults to Vite's `base` when it is an absolute path; relative and
+     * full-URL bases leave the router without a basename. Only the 'browser'
+     * router mode falls back to `base`.
+     */
+    basename?: string;
+    /** Router flavour (default: 'browser'). See RouterMode. */
+    routerMode?: RouterMode;
+    /**
+     * Prerender every non-dynamic route to static HTML at build time
+     * (default: false). The output is hydrated on load when the app mounts
+     * through `createAppRoot`. Pass `{ rootId }` when the app container is
+     * not `#root`. Only the 'browser' router mode is supported.
+     */
+    prerender?: boolean | { rootId?: string };
+    /**
+     * Public origin of the deployed site (e.g. "https://example.com"), used
+     * for the absolute URLs in `sitemap.xml` and `robots.txt`.
+     */
+    siteUrl?: string;
+    /**
+     * Write `sitemap.xml` — and `robots.txt`, unless the output already has
+     * one — at build time. Requires `siteUrl`. See SitemapOptions.
+     */
+    sitemap?: boolean | SitemapOptions;
+    /**
+     * Chunking strategy for route files in production builds (default:
+     * 'per-file'). See RouteChunking.
+     */
+    chunking?: RouteChunking;
+    /**
+     * Print a table of the routes and the bytes each one loads after
+     * `vite build` (default: false). See BuildSummaryOptions.
+     */
+    buildSummary?: boolean | BuildSummaryOptions;
+    /**
+     * Serve the route inspector at `/__app-router` in dev (default: true).
+     */
+    inspector?: boolean;
+    /**
+     * Fail `vite build` on routing diagnostics: with `true` or
+     * `{ warnings: 'error' }`, warnings (unresolved shared modules, route
+     * conflicts, skipped intercepts, ...) are raised as build errors.
+     */
+    strict?: boolean | { warnings: 'error' };
+}
+
+/** Param values for one URL of a dynamic route; catch-alls take arrays. */
+export type SitemapParams = Record<string, string | number | ReadonlyArray<string | number>>;
+
+export interface SitemapOptions {
+    /**
+     * Params for the dynamic routes, keyed by segment name (`[id]` → `id`,
+     * `[...slug]` → `slug`). Return undefined for a pattern to fall back to
+     * the page's `generateStaticParams()` (only run when `prerender` is on);
+     * patterns without either are left out.
+     */
+    params?: (pattern: string) => SitemapParams[] | undefined | Promise<SitemapParams[] | undefined>;
+    /** Write `robots.txt` pointing at the sitemap (default: true). */
+    robots?: boolean;
+}
+
+export interface BuildSummaryOptions {
+    /**
+     * First-load JS budget per route in kB (1 kB = 1000 bytes): the entry,
+     * the route's layouts and its page together. Routes over it are flagged.
+     */
+    budget?: number;
 }
 
 export interface GeneratedRouteCode {
@@ -204,6 +332,10 @@ export type PluginHookHandler = {
     configurePreviewServer?: UnwrapObjectHook<Plugin['configurePreviewServer']>;
     handleHotUpdate?: UnwrapObjectHook<Plugin['handleHotUpdate']>;
     buildApp?: UnwrapObjectHook<Plugin['buildApp']>;
+    buildStart?: UnwrapObjectHook<Plugin['buildStart']>;
+    buildEnd?: UnwrapObjectHook<Plugin['buildEnd']>;
+    generateBundle?: UnwrapObjectHook<Plugin['generateBundle']>;
+    closeBundle?: UnwrapObjectHook<Plugin['closeBundle']>;
 }
 
 
@@ -0,0 +1,113 @@
+/**
+ * Route type declarations generator
+ *
+ * Emits a `.d.ts` that augments the `virtual:app-router` module with the
+ * `RouteRegistry` interface, so `routePath()` targets and `useRouteParams()`
+ * results are checked against the routes that actually exist on disk.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ParsedRoute, PluginOptions } from './types.js';
+
+/** Default location of the declaration file when `dts: true`. */
+const DEFAULT_DTS_PATH = 'src/app-router.d.ts';
+
+/**
+ * Returns the param keys react-router exposes for a pattern, in order:
+ * `:id` → `id`, `*` → `*` (catch-alls are surfaced under the splat key).
+ */
+export function getPatternParams(pattern: string): string[] {
+    const params: string[] = [];
+    for (const segment of pattern.split('/')) {
+        if (segment.startsWith(':')) {
+            params.push(segment.slice(1));
+        } else if (segment === '*' && !params.includes('*')) {
+            params.push('*');
+        }
+    }
+    return params;
+}
+
+/**
+ * Converts a route pattern into a template literal type matching every
+ * concrete URL it accepts: `/blog/:id` → `` `/blog/${string}` ``.
+ */
+function patternToPathType(pattern: string): string {
+    const literal = pattern
+        .split('/')
+        .map((segment) => (segment.startsWith(':') || segment === '*' ? '${string}' : segment))
+        .join('/')
+        .replace(/`/g, '\\`');
+    return '`' + (literal || '/') + '`';
+}
+
+/**
+ * Generates the declaration file content for the given routes. Patterns are
+ * deduplicated and sorted so the output is stable across rescans. The splat
+ * of an optional catch-all (`[[...slug]]`) is typed as optional.
+ */
+export function generateRouteTypes(routes: ParsedRoute[]): string {
+    /** Pattern → whether its splat may be missing. */
+    const optionalSplats = new Map<string, boolean>();
+    for (const route of routes) {
+        const pattern = route.pattern || '/';
+        optionalSplats.set(pattern, (optionalSplats.get(pattern) ?? false) || !!route.isOptionalCatchAll);
+    }
+    const patterns = [...optionalSplats.keys()].sort();
+
+    const lines: string[] = [
+        '// Generated by vite-plugin-react-app-router. Do not edit.',
+        '// Regenerated whenever the app directory changes.',
+        '',
+        "declare module 'virtual:app-router' {",
+        '    interface RouteRegistry {',
+    ];
+    for (const pattern of patterns) {
+        const optionalSplat = optionalSplats.get(pattern) ?? false;
+        // An optional catch-all also matches its URL without the splat.
+        const pathType =
+            optionalSplat && pattern.endsWith('/*')
+                ? `${patternToPathType(pattern)} | ${patternToPathType(pattern.slice(0, -2))}`
+                : patternToPathType(pattern);
+        const params = getPatternParams(pattern)
+            .map((name) => `${JSON.stringify(name)}${optionalSplat && name === '*' ? '?' : ''}: string`)
+            .join('; ');
+        lines.push(
+            `        ${JSON.stringify(pattern)}: {`,
+            `            params: {${params ? ` ${params} ` : ''}};`,
+            `            path: ${pathType};`,
+            '        };'
+        );
+    }
+    lines.push('    }', '}', '');
+    return lines.join('\n');
+}
+
+/**
+ * Resolves the declaration file path from the `dts` option, or `undefined`
+ * when type generation is disabled.
+ */
+export function resolveRouteTypesPath(
+    rootDir: string,
+    dts: PluginOptions['dts']
+): string | undefined {
+    if (!dts) return undefined;
+    const target = typeof dts === 'string' ? dts : DEFAULT_DTS_PATH;
+    return path.isAbsolute(target) ? target : path.resolve(rootDir, target);
+}
+
+/**
+ * Writes the route declaration file, skipping the write when the content is
+ * unchanged so editors and `tsc --watch` don't churn on every rescan.
+ * Returns true when the file was (re)written.
+ */
+export function writeRouteTypes(filePath: string, routes: ParsedRoute[]): boolean {
+    const content = generateRouteTypes(routes);
+    if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === content) {
+        return false;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return true;
+}
@@ -6,45 +6,53 @@
  */
 
 import type { Plugin } from 'vite';
-import type { PluginOptions } from './commons/types.js';
+import type { PluginHookHandler, PluginOptions } from './commons/types.js';
 
 // Import handlers and resolution functions
 import * as serverModule from './server/index.js';
 import * as buildModule from './build/index.js';
 
 // Re-export types from virtual module so client projects have access
-export type { PluginOptions } from './commons/types.js';
+export type { BuildSummaryOptions, PluginOptions, RouteChunking, RouterMode, SitemapOptions, SitemapParams } from './commons/types.js';
 
 // Virtual module ID constant for external use
 export const VIRTUAL_MODULE_ID = 'virtual:app-router';
 
 interface PluginContext {
     options: PluginOptions;
-    handler?: typeof serverModule.default | typeof buildModule.default;
+    handler?: PluginHookHandler;
 }
 
+/** Context of each plugin instance, for buildApp to find the client's. */
+const instances = new WeakMap<Plugin, PluginContext>();
+
 export default function reactAppRouterPlugin(options: PluginOptions = {}): Plugin {
 
     const context: PluginContext = {
         options,
     };
 
-    let currentModule: typeof serverModule | typeof buildModule;
+    let currentModule: typeof serverModule | buildModule.BuildHandler;
 
-    return {
+    const plugin: Plugin = {
         name: 'vite-plugin-react-app-router',
 
         // Ensure this plugin runs before others
         enforce: 'pre',
 
+        // Lets tooling (the `vite-app-router` CLI) read the options back from
+        // a loaded Vite config.
+        api: { options },
+
         config(config, env) {
             // Determine which module to use based on command (serve or build)
-            currentModule = env.command === 'serve' ? serverModule : buildModule;
-            context.handler = currentModule.default;
-
-            // Pass options to the module
-            if (currentModule.setOptions) {
-                currentModule.setOptions(options);
+            if (env.command === 'serve') {
+                currentModule = serverModule;
+                context.handler = serverModule.default;
+                serverModule.setOptions(options);
+            } else {
+                currentModule = buildModule.createBuildHandler(options);
+                context.handler = currentModule.handler;
             }
 
             if (context.handler?.config) {
@@ -84,9 +92,21 @@ export default function reactAppRouterPlugin(options: PluginOptions = {}): Plugi
         },
 
         // Load virtual module content (generated routes code)
-        load(id) {
+        load(id, loadOptions) {
             if (currentModule?.load) {
-                return currentModule.load(id);
+                return currentModule.load(id, loadOptions);
+            }
+        },
+
+        buildStart(inputOptions) {
+            if (context.handler?.buildStart) {
+                return context.handler.buildStart.bind(this)(inputOptions);
+            }
+        },
+
+        buildEnd(error) {
+            if (context.handler?.buildEnd) {
+                return context.handler.buildEnd.bind(this)(error);
             }
         },
 
@@ -96,10 +116,32 @@ export default function reactAppRouterPlugin(options: PluginOptions = {}): Plugi
             }
         },
 
-        async buildApp(app) {
-            if (context.handler?.buildApp) {
-                return await context.handler.buildApp.bind(this)(app);
+        generateBundle(outputOptions, bundle, isWrite) {
+            if (context.handler?.generateBundle) {
+                return context.handler.generateBundle.bind(this)(outputOptions, bundle, isWrite);
+            }
+        },
+
+        closeBundle() {
+            if (context.handler?.closeBundle) {
+                return context.handler.closeBundle.bind(this)();
             }
         },
-    }
+
+        // After the config's own builder.buildApp, which may build some
+        // environments itself. In app builds each environment resolves its
+        // own plugin instances; the client's holds the routes it builds.
+        buildApp: {
+            order: 'post',
+            async handler(app) {
+                const clientPlugin = app.environments.client?.config.plugins.find((p) => instances.has(p));
+                const handler = (clientPlugin && instances.get(clientPlugin)?.handler) ?? context.handler;
+                if (handler?.buildApp) {
+                    return await handler.buildApp.bind(this)(app);
+                }
+            },
+        },
+    };
+    instances.set(plugin, context);
+    return plugin;
 }
@@ -10,10 +10,29 @@
  *     <SlotRenderer/> element that runs useRoutes against the current location.
  */
 
-import { createContext, useContext, createElement } from 'react';
-import type { ReactElement, ReactNode } from 'react';
-import { useRoutes, useLocation } from 'react-router-dom';
-import type { RouteObject } from 'react-router-dom';
+import {
+    createContext,
+    useContext,
+    createElement,
+    Fragment,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+    useSyncExternalStore,
+    lazy,
+} from 'react';
+import type { ComponentType, LazyExoticComponent, ReactElement, ReactNode, RefAttributes } from 'react';
+import {
+    useRoutes,
+    useLocation,
+    useParams,
+    useRouteLoaderData,
+    useResolvedPath,
+    matchRoutes,
+    Link,
+} from 'react-router-dom';
+import type { RouteObject, Params, LinkProps, Location } from 'react-router-dom';
 
 export interface SlotDefinition {
     /** Route table for this slot. Matched independently against the URL. */
@@ -53,7 +72,7 @@ export function useSlot(name: string): ReactElement | null {
 export interface SlotProviderProps {
     /** Slot definitions registered at this segment. Closer providers win. */
     slots: Record<string, SlotDefinition>;
-    children: ReactNode;
+    children?: ReactNode;
 }
 
 /**
@@ -101,7 +120,7 @@ export function useSharedSlot(subName: string): boolean {
 
 export interface SharedModuleProviderProps {
     info: SharedModuleInfo;
-    children: ReactNode;
+    children?: ReactNode;
 }
 
 /**
@@ -139,7 +158,7 @@ export function useSharedProps<T = Record<string, unknown>>(): T {
 export interface SharedPropsProviderProps {
     /** Values exported by `props.tsx` at this invocation site / drill-down. */
     props: Record<string, unknown>;
-    children: ReactNode;
+    children?: ReactNode;
 }
 
 /**
@@ -157,6 +176,535 @@ export function SharedPropsProvider(props: SharedPropsProviderProps): ReactEleme
     );
 }
 
+// Segment loaders (`loader.ts` next to page.tsx/layout.tsx).
+
+/**
+ * Route id of the closest enclosing segment that declares a `loader.ts`, or
+ * `null` when no segment above declares one.
+ */
+const SegmentDataContext = createContext<string | null>(null);
+
+/**
+ * Resolved data type of a loader: `SegmentData<typeof loader>` unwraps the
+ * promise returned by the loader function.
+ */
+export type SegmentData<L> = L extends (...args: never[]) => infer R ? Awaited<R> : L;
+
+/**
+ * Read the data returned by the closest segment `loader.ts`. Works from the
+ * segment's layout, its page, and any descendant segment without a loader of
+ * its own. Pass the loader's type for a typed result:
+ *
+ *   import type loader from './loader';
+ *   const post = useSegmentData<typeof loader>();
+ */
+export function useSegmentData<L = unknown>(): SegmentData<L> {
+    const routeId = useContext(SegmentDataContext);
+    if (routeId === null) {
+        throw new Error(
+            'useSegmentData: no loader.ts found in this segment or any parent segment.'
+        );
+    }
+    return useRouteLoaderData(routeId) as SegmentData<L>;
+}
+
+export interface SegmentDataProviderProps {
+    /** Id of the route object that carries the segment's loader. */
+    routeId: string;
+    children?: ReactNode;
+}
+
+/**
+ * Internal: exposes the route id of a segment loader to its layout, page and
+ * descendant segments. Generated around the element of every route object
+ * carrying a `loader`.
+ */
+export function SegmentDataProvider(props: SegmentDataProviderProps): ReactElement {
+    return createElement(
+        SegmentDataContext.Provider,
+        { value: props.routeId },
+        props.children
+    );
+}
+
+// Segment templates (`template.tsx` next to layout.tsx).
+
+export interface TemplateBoundaryProps {
+    children?: ReactNode;
+}
+
+/**
+ * Internal: keys the segment's `template.tsx` by the current pathname so it
+ * remounts (fresh state, effects re-run) on every navigation below it, where
+ * a layout would be kept mounted.
+ */
+export function TemplateBoundary(props: TemplateBoundaryProps): ReactElement {
+    const { pathname } = useLocation();
+    return createElement(Fragment, { key: pathname }, props.children);
+}
+
+// Route metadata (`export const metadata` / `generateMetadata` in pages and
+// layouts).
+
+export interface OpenGraphImage {
+    url: string;
+    width?: number;
+    height?: number;
+    alt?: string;
+}
+
+export interface OpenGraphMetadata {
+    title?: string;
+    description?: string;
+    url?: string;
+    siteName?: string;
+    type?: string;
+    locale?: string;
+    images?: string | OpenGraphImage | Array<string | OpenGraphImage>;
+}
+
+/**
+ * Metadata exported by a page or layout. Layouts can declare a title
+ * template applied to the titles of the segments below them:
+ *
+ *   export const metadata = { title: { template: '%s | Acme', default: 'Acme' } };
+ */
+export interface Metadata {
+    title?: string | { default?: string; template?: string; absolute?: string };
+    description?: string;
+    keywords?: string | string[];
+    robots?: string | { index?: boolean; follow?: boolean };
+    openGraph?: OpenGraphMetadata;
+    /** Extra `<meta name="…" content="…">` tags. */
+    other?: Record<string, string | string[]>;
+}
+
+/**
+ * Metadata merged from the outermost layout down to a segment. `title` is
+ * final (template applied); `titleTemplate` is the template inherited by the
+ * segments below.
+ */
+export interface ResolvedMetadata extends Omit<Metadata, 'title'> {
+    title?: string;
+    titleTemplate?: string;
+}
+
+/** Arguments passed to `generateMetadata`. */
+export interface MetadataProps {
+    params: Readonly<Params>;
+    searchParams: URLSearchParams;
+}
+
+/** Metadata-related exports of a route module. */
+export interface MetadataModule {
+    metadata?: Metadata;
+    generateMetadata?: (
+        props: MetadataProps,
+        parent: ResolvedMetadata
+    ) => Metadata | Promise<Metadata>;
+}
+
+/**
+ * Where a MetadataBoundary reads its module from: the module namespace
+ * itself (eager builds) or the dynamic import behind a lazy route.
+ */
+export type MetadataSource = MetadataModule | (() => Promise<MetadataModule>);
+
+/** Attribute marking the `<meta>` tags owned by the router. */
+const MANAGED_META_ATTR = 'data-app-router';
+
+/**
+ * Merges a segment's metadata over its parent's. Fields override per key
+ * (openGraph key by key); a string title goes through the inherited title
+ * template, `absolute` bypasses it.
+ */
+export function mergeMetadata(parent: ResolvedMetadata, own: Metadata): ResolvedMetadata {
+    const merged: ResolvedMetadata = { ...parent, ...own, title: parent.title };
+    if (typeof own.title === 'string') {
+        merged.title = parent.titleTemplate
+            ? parent.titleTemplate.replace('%s', own.title)
+            : own.title;
+    } else if (own.title) {
+        merged.title = own.title.absolute ?? own.title.default ?? parent.title;
+        if (own.title.template) merged.titleTemplate = own.title.template;
+    }
+    if (parent.openGraph && own.openGraph) {
+        merged.openGraph = { ...parent.openGraph, ...own.openGraph };
+    }
+    if (parent.other && own.other) {
+        merged.other = { ...parent.other, ...own.other };
+    }
+    return merged;
+}
+
+/**
+ * Lists the `<meta>` tags for resolved metadata as `[attribute, key, content]`
+ * triples (`['name', 'description', '…']`, `['property', 'og:title', '…']`).
+ */
+export function metadataToTags(metadata: ResolvedMetadata): Array<[string, string, string]> {
+    const tags: Array<[string, string, string]> = [];
+    if (metadata.description) tags.push(['name', 'description', metadata.description]);
+    if (metadata.keywords) {
+        const keywords = Array.isArray(metadata.keywords)
+            ? metadata.keywords.join(', ')
+            : metadata.keywords;
+        tags.push(['name', 'keywords', keywords]);
+    }
+    if (metadata.robots) {
+        const robots = typeof metadata.robots === 'string'
+            ? metadata.robots
+            : [
+                metadata.robots.index === false ? 'noindex' : 'index',
+                metadata.robots.follow === false ? 'nofollow' : 'follow',
+            ].join(', ');
+        tags.push(['name', 'robots', robots]);
+    }
+    const og = metadata.openGraph;
+    if (og) {
+        const fields: Array<[keyof OpenGraphMetadata, string]> = [
+            ['title', 'og:title'],
+            ['description', 'og:description'],
+            ['url', 'og:url'],
+            ['siteName', 'og:site_name'],
+            ['type', 'og:type'],
+            ['locale', 'og:locale'],
+        ];
+        for (const [field, property] of fields) {
+            const value = og[field];
+            if (typeof value === 'string') tags.push(['property', property, value]);
+        }
+        const images = og.images === undefined ? [] : Array.isArray(og.images) ? og.images : [og.images];
+        for (const image of images) {
+            const img = typeof image === 'string' ? { url: image } : image;
+            tags.push(['property', 'og:image', img.url]);
+            if (img.width !== undefined) tags.push(['property', 'og:image:width', String(img.width)]);
+            if (img.height !== undefined) tags.push(['property', 'og:image:height', String(img.height)]);
+            if (img.alt) tags.push(['property', 'og:image:alt', img.alt]);
+        }
+    }
+    for (const [name, value] of Object.entries(metadata.other ?? {})) {
+        for (const content of Array.isArray(value) ? value : [value]) {
+            tags.push(['name', name, content]);
+        }
+    }
+    return tags;
+}
+
+interface HeadEntry {
+    depth: number;
+    order: number;
+    metadata: ResolvedMetadata;
+}
+
+/**
+ * Mounted boundaries and the metadata each resolved. The deepest entry (the
+ * page, once it has resolved) drives the document head; ties go to the most
+ * recently mounted one, e.g. an intercepting overlay over its background page.
+ */
+const headEntries = new Set<HeadEntry>();
+const headListeners = new Set<() => void>();
+let headOrder = 0;
+let appliedMetadata: ResolvedMetadata = {};
+let initialTitle: string | undefined;
+
+/** The parts of the DOM the head manager writes to. */
+interface HeadElement {
+    setAttribute(name: string, value: string): void;
+    remove(): void;
+}
+
+interface HeadDocument {
+    title: string;
+    head: {
+        querySelectorAll(selectors: string): Iterable<HeadElement>;
+        appendChild(node: HeadElement): unknown;
+    };
+    createElement(tagName: 'meta'): HeadElement;
+}
+
+/**
+ * The browser document, or undefined while rendering on the server. Typed
+ * locally so the runtime does not pull the DOM lib into type-checks.
+ */
+function getDocument(): HeadDocument | undefined {
+    return (globalThis as { document?: HeadDocument }).document;
+}
+
+function writeHead(metadata: ResolvedMetadata): void {
+    const document = getDocument();
+    if (!document) return;
+    if (initialTitle === undefined) initialTitle = document.title;
+    document.title = metadata.title ?? initialTitle;
+    for (const el of document.head.querySelectorAll(`meta[${MANAGED_META_ATTR}]`)) {
+        el.remove();
+    }
+    for (const [attr, key, content] of metadataToTags(metadata)) {
+        const el = document.createElement('meta');
+        el.setAttribute(attr, key);
+        el.setAttribute('content', content);
+        el.setAttribute(MANAGED_META_ATTR, '');
+        document.head.appendChild(el);
+    }
+}
+
+function applyHead(): void {
+    let winner: HeadEntry | undefined;
+    for (const entry of headEntries) {
+        if (
+            !winner ||
+            entry.depth > winner.depth ||
+            (entry.depth === winner.depth && entry.order > winner.order)
+        ) {
+            winner = entry;
+        }
+    }
+    const next = winner?.metadata ?? {};
+    if (next === appliedMetadata) return;
+    appliedMetadata = next;
+    writeHead(next);
+    for (const listener of headListeners) listener();
+}
+
+function subscribeHead(listener: () => void): () => void {
+    headListeners.add(listener);
+    return () => {
+        headListeners.delete(listener);
+    };
+}
+
+/**
+ * The metadata currently applied to the document head — merged from the
+ * outermost layout down to the active page.
+ */
+export function useMetadata(): ResolvedMetadata {
+    return useSyncExternalStore(subscribeHead, () => appliedMetadata, () => appliedMetadata);
+}
+
+interface MetadataScope {
+    depth: number;
+    metadata: ResolvedMetadata;
+}
+
+const MetadataContext = createContext<MetadataScope>({ depth: 0, metadata: {} });
+
+/** Modules already loaded through a lazy source, for synchronous remounts. */
+const loadedMetadataModules = new WeakMap<() => Promise<MetadataModule>, MetadataModule>();
+
+function peekMetadataModule(source: MetadataSource): MetadataModule | undefined {
+    return typeof source === 'function' ? loadedMetadataModules.get(source) : source;
+}
+
+async function loadMetadataModule(source: MetadataSource): Promise<MetadataModule> {
+    if (typeof source !== 'function') return source;
+    const mod = await source();
+    loadedMetadataModules.set(source, mod);
+    return mod;
+}
+
+/**
+ * Resolves a module's own metadata. Returns the value directly when it is
+ * available synchronously (static `metadata`, or a non-async
+ * `generateMetadata`), so the first render already carries it.
+ */
+function resolveOwnMetadata(
+    mod: MetadataModule,
+    props: MetadataProps,
+    parent: ResolvedMetadata
+): Metadata | Promise<Metadata> {
+    if (mod.generateMetadata) return mod.generateMetadata(props, parent);
+    return mod.metadata ?? {};
+}
+
+/**
+ * Server-side (prerender) resolution. There are no effects on the server, so
+ * a boundary whose metadata is not available synchronously suspends on a
+ * cached promise until it is — the render is only flushed once everything
+ * has settled.
+ */
+interface ServerMetadataRecord {
+    promise: Promise<void>;
+    value?: Metadata;
+    error?: unknown;
+    settled: boolean;
+}
+
+const serverMetadataRecords = new WeakMap<object, Map<string, ServerMetadataRecord>>();
+
+function readServerMetadata(
+    source: MetadataSource,
+    props: MetadataProps,
+    parent: ResolvedMetadata,
+    key: string
+): Metadata {
+    let records = serverMetadataRecords.get(source);
+    if (!records) {
+        records = new Map();
+        serverMetadataRecords.set(source, records);
+    }
+    let record = records.get(key);
+    if (!record) {
+        const pending: ServerMetadataRecord = { settled: false, promise: Promise.resolve() };
+        pending.promise = loadMetadataModule(source)
+            .then((mod) => resolveOwnMetadata(mod, props, parent))
+            .then(
+                (value) => {
+                    pending.value = value;
+                },
+                (error: unknown) => {
+                    pending.error = error;
+                }
+            )
+            .finally(() => {
+                pending.settled = true;
+            });
+        record = pending;
+        records.set(key, record);
+    }
+    if (!record.settled) throw record.promise;
+    if (record.error !== undefined) throw record.error;
+    return record.value ?? {};
+}
+
+/** Deepest metadata recorded by the boundaries of the current server render. */
+let serverHead: HeadEntry | undefined;
+
+/**
+ * Internal: returns the metadata the last server render resolved for the
+ * document head and resets the collector for the next one.
+ */
+export function collectServerMetadata(): ResolvedMetadata {
+    const metadata = serverHead?.metadata ?? {};
+    serverHead = undefined;
+    return metadata;
+}
+
+export interface MetadataBoundaryProps {
+    source: MetadataSource;
+    children?: ReactNode;
+}
+
+/**
+ * Internal: generated around every page/layout element whose module exports
+ * `metadata` or `generateMetadata`. Resolves the module's metadata, merges it
+ * over the enclosing boundary's and registers the result with the head
+ * manager while mounted.
+ */
+export function MetadataBoundary(props: MetadataBoundaryProps): ReactElement {
+    const parent = useContext(MetadataContext);
+    const params = useParams();
+    const { search } = useLocation();
+    const paramsKey = JSON.stringify(params);
+
+    const [own, setOwn] = useState<Metadata | undefined>(() => {
+        if (!getDocument()) {
+            return readServerMetadata(
+                props.source,
+                { params, searchParams: new URLSearchParams(search) },
+                parent.metadata,
+                paramsKey + search + JSON.stringify(parent.metadata)
+            );
+        }
+        const mod = peekMetadataModule(props.source);
+        if (!mod) return undefined;
+        const value = resolveOwnMetadata(
+            mod,
+            { params, searchParams: new URLSearchParams(search) },
+            parent.metadata
+        );
+        return value instanceof Promise ? undefined : value;
+    });
+
+    useEffect(() => {
+        let cancelled = false;
+        loadMetadataModule(props.source)
+            .then((mod) =>
+                resolveOwnMetadata(
+                    mod,
+                    { params, searchParams: new URLSearchParams(search) },
+                    parent.metadata
+                )
+            )
+            .then((value) => {
+                if (!cancelled) setOwn(value);
+            })
+            .catch((error: unknown) => {
+                console.error('[vite-plugin-react-app-router] Failed to resolve metadata:', error);
+            });
+        return () => {
+            cancelled = true;
+        };
+        // `params` is tracked through its serialized form.
+    }, [props.source, paramsKey, search, parent.metadata]);
+
+    const scope = useMemo<MetadataScope>(
+        () => ({
+            depth: parent.depth + 1,
+            metadata: own ? mergeMetadata(parent.metadata, own) : parent.metadata,
+        }),
+        [parent, own]
+    );
+
+    if (!getDocument()) {
+        // Render-time bookkeeping is safe here: server renders never commit,
+        // and retries after a suspension record the same values again.
+        const entry: HeadEntry = { depth: scope.depth, order: ++headOrder, metadata: scope.metadata };
+        if (!serverHead || entry.depth >= serverHead.depth) serverHead = entry;
+    }
+
+    const entryRef = useRef<HeadEntry | null>(null);
+    useEffect(() => {
+        const entry: HeadEntry = { depth: scope.depth, order: ++headOrder, metadata: scope.metadata };
+        entryRef.current = entry;
+        headEntries.add(entry);
+        applyHead();
+        return () => {
+            headEntries.delete(entry);
+            entryRef.current = null;
+            applyHead();
+        };
+    }, []);
+    useEffect(() => {
+        const entry = entryRef.current;
+        if (!entry || entry.metadata === scope.metadata) return;
+        entry.depth = scope.depth;
+        entry.metadata = scope.metadata;
+        applyHead();
+    }, [scope]);
+
+    return createElement(MetadataContext.Provider, { value: scope }, props.children);
+}
+
+export interface StaticParamsGuardProps {
+    /** Every URL `generateStaticParams()` produced for the page's pattern. */
+    paths: ReadonlyArray<string>;
+    /** Element rendered for any other URL (the nearest not-found.tsx). */
+    fallback?: ReactNode;
+    children?: ReactNode;
+}
+
+function decodePath(pathname: string): string {
+    try {
+        return normalizeUrl(decodeURI(pathname));
+    } catch {
+        return normalizeUrl(pathname);
+    }
+}
+
+/**
+ * Internal: generated around pages exporting `dynamicParams = false`. Renders
+ * the page only for the URLs its `generateStaticParams()` returned at build
+ * time, and the fallback for anything else.
+ */
+export function StaticParamsGuard(props: StaticParamsGuardProps): ReactElement {
+    const { pathname } = useLocation();
+    const allowed = useMemo(() => new Set(props.paths.map(decodePath)), [props.paths]);
+    return createElement(
+        Fragment,
+        null,
+        allowed.has(decodePath(pathname)) ? props.children : (props.fallback ?? null)
+    );
+}
+
 // Template link resolution (`useTemplateLink`).
 
 /**
@@ -206,14 +754,18 @@ function normalizeUrl(u: string): string {
     return collapsed || '/';
 }
 
-function interpolate(path: string, params: TemplateLinkParams): string {
+function interpolate(
+    path: string,
+    params: TemplateLinkParams,
+    caller: string = 'useTemplateLink'
+): string {
     let out = path.replace(
         /:([A-Za-z_][A-Za-z0-9_]*)(\?)?/g,
         (_full: string, name: string, opt?: string) => {
             const value = params[name];
             if (value === undefined || value === null || value === '') {
                 if (opt) return '';
-                throw new Error(`useTemplateLink: missing param "${name}"`);
+                throw new Error(`${caller}: missing param "${name}"`);
             }
             if (Array.isArray(value)) {
                 return value
@@ -375,3 +927,304 @@ export function createUseTemplateLink(
         };
     };
 }
+
+// Typed route helpers (`routePath`, `useRouteParams`).
+
+/**
+ * Fills a route pattern with param values: `routePath('/blog/:id', { id })`.
+ * The splat of a catch-all pattern is read from `params['*']`; arrays join
+ * with `/`. Throws when a required param is missing.
+ *
+ * The virtual module re-exports this with a signature narrowed to the
+ * patterns listed in the generated route declarations (`dts` option).
+ */
+export function routePath(pattern: string, params?: TemplateLinkParams): string {
+    return normalizeUrl(interpolate(pattern, params ?? {}, 'routePath'));
+}
+
+/**
+ * `useParams()` that the virtual module types against the generated route
+ * declarations: `useRouteParams('/blog/:id').id` is a `string`. The pattern
+ * argument only drives inference.
+ */
+export function useRouteParams(_pattern?: string): Readonly<Params> {
+    return useParams();
+}
+
+// Route prefetching (`preloadRoute`, `<PrefetchLink>`).
+
+/**
+ * Route objects of the generated module list the loaders of the lazy
+ * components they render (layout, template, page, error, ...). Exported for
+ * the annotations of the `emitFile` routes file.
+ */
+export type PreloadableRouteObject = RouteObject & {
+    preload?: ReadonlyArray<() => Promise<unknown>>;
+    children?: PreloadableRouteObject[];
+};
+
+/** Loaders of every lazy component along the branch matching `location`. */
+function getBranchLoads(
+    routes: RouteObject[],
+    location: string | Partial<Location>,
+    basename?: string
+): Array<() => Promise<unknown>> {
+    const matches = matchRoutes(routes, location, basename) ?? [];
+    return matches.flatMap(({ route }) => (route as PreloadableRouteObject).preload ?? []);
+}
+
+/**
+ * Starts every load of a branch at once. Nested `React.lazy` components
+ * would otherwise download one level at a time — a layout's children are
+ * only discovered once the layout itself has loaded and rendered. Failures
+ * are left to the render, which retries the import.
+ */
+function startBranchLoads(loads: Array<() => Promise<unknown>>): void {
+    for (const load of loads) load().catch(() => undefined);
+}
+
+/** Starts downloading the code for every route matching a pathname. */
+export type RoutePreloader = (pathname: string) => Promise<void>;
+
+/**
+ * Builds a `preloadRoute` function bound to a route table. The generated
+ * virtual module calls this once with its `routes` and re-exports the result.
+ * Pathnames are app paths (without the basename); routes rendered eagerly
+ * (`lazy: false`) have nothing to preload.
+ */
+export function createRoutePreloader(routes: RouteObject[]): RoutePreloader {
+    return function preloadRoute(pathname) {
+        const loads = getBranchLoads(routes, pathname);
+        return Promise.all(loads.map((load) => load())).then(() => undefined);
+    };
+}
+
+/** The parts of a data router `preloadMatchedBranches` reads. */
+interface BranchPreloadingRouter {
+    readonly routes: RouteObject[];
+    readonly basename: string | undefined;
+    readonly state: { location: Location; navigation: { location?: Location } };
+    subscribe(listener: (state: BranchPreloadingRouter['state']) => void): unknown;
+}
+
+/**
+ * Internal: loads the whole matched branch in parallel — for the initial URL
+ * right away, and for every navigation as soon as the router matches it
+ * (before React renders the first level).
+ */
+export function preloadMatchedBranches<R extends BranchPreloadingRouter>(router: R): R {
+    let last: Location | undefined;
+    const preload = (location: Location): void => {
+        if (location === last) return;
+        last = location;
+        startBranchLoads(getBranchLoads(router.routes, location, router.basename));
+    };
+    preload(router.state.location);
+    router.subscribe((state) => preload(state.navigation.location ?? state.location));
+    return router;
+}
+
+/**
+ * Internal: `preloadMatchedBranches` for intercept mode, where
+ * `<BrowserRouter>` + `useRoutes()` render without a data router. Runs once
+ * the matched branch commits — every route element has its own Suspense
+ * boundary, so that is while the first lazy level still shows its fallback.
+ */
+export function useMatchedBranchPreload(routes: RouteObject[] | null, pathname: string): void {
+    useEffect(() => {
+        if (routes) startBranchLoads(getBranchLoads(routes, pathname));
+    }, [routes, pathname]);
+}
+
+/**
+ * When `<PrefetchLink>` starts loading its target:
+ *   - `intent` (default): on hover, focus or touch start;
+ *   - `render`: as soon as the link is rendered;
+ *   - `none`: never (a plain `<Link>`).
+ */
+export type PrefetchBehavior = 'intent' | 'render' | 'none';
+
+export type PrefetchLinkProps = LinkProps &
+    RefAttributes<HTMLAnchorElement> & {
+        prefetch?: PrefetchBehavior;
+    };
+
+/**
+ * Build a `<Link>` that preloads the code of its target route. The generated
+ * virtual module calls this with its `preloadRoute` and re-exports the
+ * component.
+ *
+ * Usage in user code:
+ *   <PrefetchLink to="/blog">Blog</PrefetchLink>
+ */
+export function createPrefetchLink(
+    preloadRoute: RoutePreloader
+): (props: PrefetchLinkProps) => ReactElement {
+    return function PrefetchLink(props) {
+        const { prefetch = 'intent', onMouseEnter, onFocus, onTouchStart, ...linkProps } = props;
+        const { pathname } = useResolvedPath(props.to, { relative: props.relative });
+
+        // A failed preload is not an error yet — navigating retries the import
+        // and surfaces the failure through the route's error boundary.
+        const preload = (): void => {
+            preloadRoute(pathname).catch(() => undefined);
+        };
+        useEffect(() => {
+            if (prefetch === 'render') preload();
+        }, [prefetch, pathname]);
+
+        function withPreload<E extends { defaultPrevented: boolean }>(
+            handler: ((event: E) => void) | undefined
+        ): (event: E) => void {
+            return (event) => {
+                handler?.(event);
+                if (prefetch === 'intent' && !event.defaultPrevented) preload();
+            };
+        }
+
+        return createElement(Link, {
+            ...linkProps,
+            onMouseEnter: withPreload(onMouseEnter),
+            onFocus: withPreload(onFocus),
+            onTouchStart: withPreload(onTouchStart),
+        });
+    };
+}
+
+// Hot updates of the route table (dev server only).
+
+/** The subset of Vite's `import.meta.hot` the generated module passes in. */
+export interface RouteModuleHotContext {
+    data: Record<string, unknown>;
+    invalidate(message?: string): void;
+}
+
+type RouterKind = 'data' | 'intercept';
+
+/**
+ * Records which router flavour this evaluation of the routes module uses and
+ * reports whether it replaces a previous evaluation of the same flavour.
+ * Switching flavours (the first intercept added or the last one removed)
+ * cannot be patched into the mounted tree, so it falls back to a reload.
+ */
+function isRouteTableUpdate(hot: RouteModuleHotContext, kind: RouterKind): boolean {
+    const previous = hot.data.routerKind as RouterKind | undefined;
+    hot.data.routerKind = kind;
+    if (previous === undefined) return false;
+    if (previous !== kind) {
+        hot.invalidate('[vite-plugin-react-app-router] router mode changed, reloading');
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Internal: `React.lazy` whose component identity survives updates of the
+ * routes module, so mounted layouts and pages keep their state. Vite stamps
+ * the import URL of an edited file (`?t=...`) in the new module, which
+ * changes the loader's source and yields a fresh component for that file only.
+ */
+export function hotLazy<P>(
+    hot: RouteModuleHotContext | undefined,
+    key: string,
+    load: () => Promise<{ default: ComponentType<P> }>
+): LazyExoticComponent<ComponentType<P>> {
+    if (!hot) return lazy(load);
+    const cache = (hot.data.lazyComponents ??= new Map()) as Map<
+        string,
+        { source: string; component: LazyExoticComponent<ComponentType<P>> }
+    >;
+    const source = String(load);
+    let entry = cache.get(key);
+    if (!entry || entry.source !== source) {
+        entry = { source, component: lazy(load) };
+        cache.set(key, entry);
+    }
+    return entry.component;
+}
+
+interface PatchableRouter {
+    _internalSetRoutes?(routes: RouteObject[]): void;
+    revalidate(): unknown;
+}
+
+/**
+ * Internal: creates the data router once and, on later evaluations of the
+ * routes module, swaps the new route table into it and revalidates instead of
+ * creating a second router.
+ */
+export function hotDataRouter<R extends PatchableRouter>(
+    hot: RouteModuleHotContext | undefined,
+    routes: RouteObject[],
+    create: () => R
+): R {
+    if (!hot) return create();
+    const previous = hot.data.router as R | undefined;
+    if (isRouteTableUpdate(hot, 'data') && previous) {
+        if (typeof previous._internalSetRoutes === 'function') {
+            previous._internalSetRoutes(routes);
+            void previous.revalidate();
+            return previous;
+        }
+        hot.invalidate('[vite-plugin-react-app-router] router cannot swap routes, reloading');
+        return previous;
+    }
+    const router = create();
+    hot.data.router = router;
+    return router;
+}
+
+/**
+ * An intercept of the generated module: the overlay route table rendered
+ * when navigating from `source` to `target`.
+ */
+export interface InterceptRouteTable {
+    source: string;
+    target: string;
+    routes: PreloadableRouteObject[];
+}
+
+export interface HotRouteTables {
+    routes: RouteObject[];
+    intercepts: InterceptRouteTable[];
+    version: number;
+    listeners: Set<() => void>;
+}
+
+/**
+ * Internal: route tables of the intercept-mode router, shared across
+ * evaluations of the routes module. An update replaces the tables in place
+ * and re-renders the mounted router (see useRouteTables).
+ */
+export function hotRouteTables(
+    hot: RouteModuleHotContext | undefined,
+    routes: RouteObject[],
+    intercepts: InterceptRouteTable[]
+): HotRouteTables {
+    const previous = hot?.data.routeTables as HotRouteTables | undefined;
+    if (hot && isRouteTableUpdate(hot, 'intercept') && previous) {
+        previous.routes = routes;
+        previous.intercepts = intercepts;
+        previous.version++;
+        previous.listeners.forEach((listener) => listener());
+        return previous;
+    }
+    const tables: HotRouteTables = { routes, intercepts, version: 0, listeners: new Set() };
+    if (hot) hot.data.routeTables = tables;
+    return tables;
+}
+
+/**
+ * Internal: reads the current tables and re-renders when they are swapped.
+ */
+export function useRouteTables(tables: HotRouteTables): HotRouteTables {
+    const subscribe = useMemo(
+        () => (listener: () => void) => {
+            tables.listeners.add(listener);
+            return () => tables.listeners.delete(listener);
+        },
+        [tables]
+    );
+    useSyncExternalStore(subscribe, () => tables.version, () => tables.version);
+    return tables;
+}
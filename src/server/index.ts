@@ -5,7 +5,26 @@
 
 import type { PluginHookHandler } from "../commons/types.js";
 import type { ResolvedConfig, ViteDevServer, HmrContext } from "vite";
-import { parseAppRouter, generateDevRoutesCode, generateEmptyRoutesCode, type PluginOptions } from "../commons/index.js";
+import {
+    parseAppRouter,
+    generateDevRoutesCode,
+    generateEmptyRoutesCode,
+    resolveBasename,
+    resolveRouteTypesPath,
+    writeRouteTypes,
+    emitRoutesFile,
+    createRouteScanCache,
+    invalidateRouteScanCache,
+    haveModuleExportsChanged,
+    isScriptFile,
+    collectDiagnostics,
+    logDiagnostic,
+    type CodeGeneratorOptions,
+    type Diagnostic,
+    type PluginOptions,
+    type RouteScanCache,
+} from "../commons/index.js";
+import { createInspectorMiddleware, type InspectorSnapshot } from "./inspector.js";
 import * as path from "path";
 import * as fs from "fs";
 
@@ -17,11 +36,18 @@ interface ServerContext {
     server?: ViteDevServer;
     options: PluginOptions;
     cachedCode?: string;
+    /** Parse the cached code was generated from. */
+    parsed?: ReturnType<typeof parseAppRouter>;
     appDir?: string;
+    /** Scan results reused between parses; watcher events invalidate parts of it. */
+    scanCache?: RouteScanCache;
+    /** Diagnostics of the last generation, shown in the error overlay. */
+    diagnostics: Diagnostic[];
 }
 
 const ctx: ServerContext = {
     options: {},
+    diagnostics: [],
 };
 
 /**
@@ -52,11 +78,11 @@ function outputDebug(code: string): void {
 }
 
 /**
- * Regenerates the routes code
+ * Parses the app directory, or returns undefined when it cannot be located.
  */
-function regenerateRoutes(): string {
+function parseRoutes(): ReturnType<typeof parseAppRouter> | undefined {
     if (!ctx.config) {
-        return generateEmptyRoutesCode();
+        return undefined;
     }
 
     const rootDir = ctx.config.root;
@@ -72,18 +98,52 @@ function regenerateRoutes(): string {
 
     if (!fs.existsSync(appDir)) {
         console.warn(`[vite-plugin-react-app-router] App directory not found: ${appDir}`);
-        return generateEmptyRoutesCode();
+        return undefined;
     }
 
-    const parsed = parseAppRouter({
+    return parseAppRouter({
         ...ctx.options,
         appDir,
-    });
+    }, ctx.scanCache, rootDir);
+}
+
+/**
+ * Rewrites the route declaration file when the `dts` option is enabled.
+ */
+function updateRouteTypes(parsed: ReturnType<typeof parseAppRouter>): void {
+    if (!ctx.config) return;
+    const typesPath = resolveRouteTypesPath(ctx.config.root, ctx.options.dts);
+    if (typesPath) {
+        writeRouteTypes(typesPath, parsed.routes);
+    }
+}
+
+/**
+ * Regenerates the routes code and publishes the diagnostics it reported.
+ */
+function regenerateRoutes(): string {
+    const { result, diagnostics } = collectDiagnostics(generateRoutes);
+    publishDiagnostics(diagnostics);
+    return result;
+}
+
+/**
+ * Parses the app directory, generates the routes code and refreshes the
+ * route declaration file (and the `emitFile` routes file) from the same
+ * parse.
+ */
+function generateRoutes(): string {
+    const parsed = parseRoutes();
+    ctx.parsed = parsed;
+    if (!ctx.config || !parsed) {
+        return generateEmptyRoutesCode();
+    }
+    updateRouteTypes(parsed);
 
     // Use lazy loading by default for code splitting (can be disabled via options)
     const lazy = ctx.options.lazy !== false;
-    ctx.cachedCode = generateDevRoutesCode(parsed.routes, {
-        rootDir,
+    const options: CodeGeneratorOptions = {
+        rootDir: ctx.config.root,
         lazy,
         rootNotFound: parsed.rootNotFound,
         intercepts: parsed.intercepts,
@@ -92,12 +152,62 @@ function regenerateRoutes(): string {
         rootPage: parsed.rootPage,
         rootError: parsed.rootError,
         rootLoading: parsed.rootLoading,
+        rootTemplate: parsed.rootTemplate,
+        rootLoader: parsed.rootLoader,
+        rootAction: parsed.rootAction,
         rootSlots: parsed.rootSlots,
-    });
+        basename: resolveBasename(ctx.options.basename, ctx.config.base, ctx.options.routerMode),
+        routerMode: ctx.options.routerMode,
+        prerender: !!ctx.options.prerender,
+    };
+    ctx.cachedCode = generateDevRoutesCode(parsed.routes, { ...options, hmr: true });
+    if (ctx.options.emitFile) {
+        // The file gets the code `vite build` generates too; the HMR wiring
+        // stays in the virtual module. Its diagnostics are the ones above.
+        const fileCode = collectDiagnostics(() => generateDevRoutesCode(parsed.routes, options)).result;
+        emitRoutesFile(ctx.config.root, ctx.options.emitFile, fileCode);
+    }
     outputDebug(ctx.cachedCode);
     return ctx.cachedCode;
 }
 
+/**
+ * Logs the diagnostics of a generation when they differ from the previous
+ * one, and shows them in Vite's error overlay. The overlay is dismissed by
+ * the hot update that follows a fix.
+ */
+function publishDiagnostics(diagnostics: Diagnostic[]): void {
+    const changed = JSON.stringify(diagnostics) !== JSON.stringify(ctx.diagnostics);
+    ctx.diagnostics = diagnostics;
+    if (!changed) return;
+    diagnostics.forEach(logDiagnostic);
+    sendDiagnosticsOverlay();
+}
+
+/**
+ * Sends the current diagnostics to the connected clients' error overlay.
+ */
+function sendDiagnosticsOverlay(): void {
+    const diagnostics = ctx.diagnostics;
+    if (!ctx.server || diagnostics.length === 0) return;
+    const root = ctx.config?.root ?? process.cwd();
+    const lines = diagnostics.map((diagnostic) => {
+        const location = diagnostic.file
+            ? `${path.relative(root, diagnostic.file).replace(/\\/g, "/")}: `
+            : "";
+        return `${diagnostic.severity} [${diagnostic.code}] ${location}${diagnostic.message}`;
+    });
+    ctx.server.ws.send({
+        type: "error",
+        err: {
+            message: lines.join("\n"),
+            stack: "",
+            plugin: "vite-plugin-react-app-router",
+            ...(diagnostics[0]!.file ? { id: diagnostics[0]!.file } : {}),
+        },
+    });
+}
+
 /**
  * Checks if a file (or directory) lives inside the app directory.
  */
@@ -110,26 +220,53 @@ function isAppPath(filePath: string): boolean {
 }
 
 /**
- * Checks if it's a route-relevant file (page, layout, loading, error,
- * not-found, default).
+ * Checks if it's a route-relevant file (page, layout, template, loading,
+ * error, not-found, default, loader, action).
  */
 function isRouteFile(filePath: string): boolean {
     const basename = path.basename(filePath);
-    const routeFiles = ["page", "layout", "loading", "error", "not-found", "default"];
+    const routeFiles = ["page", "layout", "template", "loading", "error", "not-found", "default", "loader", "action"];
     return routeFiles.some(rf => basename.startsWith(rf));
 }
 
 /**
- * Invalidates the cached virtual module and asks the dev client to do a full
- * reload. Safe to call repeatedly — Vite coalesces concurrent reloads.
+ * Regenerates the routes (refreshing the route declaration file from the
+ * same parse) and sends the new module to the dev client as a hot update,
+ * which swaps the route table into the live router. Falls back to a full
+ * reload when the module was never loaded or the update cannot be sent.
+ * Safe to call repeatedly — Vite coalesces concurrent updates.
  */
 function triggerReload(server: ViteDevServer): void {
-    ctx.cachedCode = undefined;
+    regenerateRoutes();
     const mod = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
-    if (mod) {
-        server.moduleGraph.invalidateModule(mod);
+    if (!mod) {
+        server.ws.send({ type: "full-reload", path: "*" });
+        return;
     }
-    server.ws.send({ type: "full-reload", path: "*" });
+    // load() serves the code generated above.
+    server.moduleGraph.invalidateModule(mod);
+    server.reloadModule(mod).catch(() => {
+        server.ws.send({ type: "full-reload", path: "*" });
+    });
+}
+
+/**
+ * Current parse and generated code for the route inspector.
+ */
+function getInspectorSnapshot(): InspectorSnapshot | undefined {
+    const config = ctx.config;
+    if (!config) return undefined;
+    const code = ctx.cachedCode ?? regenerateRoutes();
+    const parsed = ctx.parsed;
+    if (!parsed || !ctx.appDir) return undefined;
+    return {
+        rootDir: config.root,
+        appDir: ctx.appDir,
+        parsed,
+        code,
+        diagnostics: ctx.diagnostics,
+        basename: resolveBasename(ctx.options.basename, config.base, ctx.options.routerMode),
+    };
 }
 
 const serverHandler: PluginHookHandler = {
@@ -142,24 +279,43 @@ const serverHandler: PluginHookHandler = {
                 ? ctx.options.appDir
                 : path.resolve(config.root, ctx.options.appDir)
             : path.join(config.root, "src/app");
+        ctx.scanCache = createRouteScanCache();
+        ctx.cachedCode = undefined;
+        ctx.parsed = undefined;
     },
 
     configureServer(server: ViteDevServer) {
         ctx.server = server;
 
+        // Write the route declarations up front so editors have them before
+        // the virtual module is first requested, which reuses this code.
+        if (ctx.options.dts) {
+            regenerateRoutes();
+        }
+
         // handleHotUpdate covers FILE MODIFICATIONS only. Directory operations
         // (creating, renaming, removing folders like `[+clientes]/`) and file
         // adds/unlinks are surfaced through the chokidar watcher events. We
         // listen for them here so that mistakes like creating `[+cliente]/`
         // and renaming it to `[+clientes]/` rebuild the virtual module without
         // a manual server restart.
+        //
+        // Each event only invalidates the scan cache for the touched
+        // directory (and anything grafted from a touched `+name/`), so the
+        // next parse re-reads just that part of the app directory. Any
+        // module counts, not just the convention names: a `Page.tsx` or
+        // `layot.tsx` is reported by the parse, and renaming it to the right
+        // name is an unlink plus an add.
         const onFileChange = (filePath: string) => {
-            if (isAppPath(filePath) && isRouteFile(filePath)) {
+            if (!isAppPath(filePath)) return;
+            if (ctx.scanCache) invalidateRouteScanCache(ctx.scanCache, filePath, 'file');
+            if (isScriptFile(filePath)) {
                 triggerReload(server);
             }
         };
         const onDirChange = (dirPath: string) => {
             if (isAppPath(dirPath)) {
+                if (ctx.scanCache) invalidateRouteScanCache(ctx.scanCache, dirPath, 'dir');
                 triggerReload(server);
             }
         };
@@ -168,6 +324,13 @@ const serverHandler: PluginHookHandler = {
         server.watcher.on('addDir', onDirChange);
         server.watcher.on('unlinkDir', onDirChange);
 
+        // Pages opened (or reloaded) while there are diagnostics show them too.
+        server.ws.on("connection", sendDiagnosticsOverlay);
+
+        if (ctx.options.inspector !== false) {
+            server.middlewares.use(createInspectorMiddleware(getInspectorSnapshot));
+        }
+
         // Add virtual module resolution
         return () => {
             // Middleware not needed, we use resolveId and load
@@ -175,12 +338,31 @@ const serverHandler: PluginHookHandler = {
     },
 
     handleHotUpdate(hmrCtx: HmrContext) {
-        const { file, server } = hmrCtx;
+        const { file, server, modules } = hmrCtx;
 
-        // If a route file was modified, invalidate the virtual module
-        if (isAppPath(file) && isRouteFile(file)) {
-            triggerReload(server);
+        // Content changes never alter the scanned tree, so the scan cache stays
+        // valid and the edited module goes through regular HMR (React Fast
+        // Refresh, or an update of the routes module when it is not a
+        // boundary). Only a change of the file's exports (metadata, a missing
+        // default export) can change the generated code or its diagnostics;
+        // the routes module is only added when its code changed.
+        if (!isAppPath(file) || !isRouteFile(file) || ctx.cachedCode === undefined) {
+            return;
+        }
+        if (!haveModuleExportsChanged(file)) {
+            return;
+        }
+        const previousCode = ctx.cachedCode;
+        const code = regenerateRoutes();
+        if (code === previousCode) {
+            return;
         }
+        const mod = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
+        if (!mod) {
+            return;
+        }
+        server.moduleGraph.invalidateModule(mod);
+        return [...modules, mod];
     },
 };
 
@@ -194,7 +376,7 @@ export function resolveId(id: string): string | undefined {
 
 export function load(id: string): string | undefined {
     if (id === RESOLVED_VIRTUAL_MODULE_ID) {
-        return regenerateRoutes();
+        return ctx.cachedCode ?? regenerateRoutes();
     }
     return undefined;
 }
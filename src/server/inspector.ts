@@ -0,0 +1,432 @@
+/**
+ * Route inspector (dev only)
+ *
+ * Serves a page at `/__app-router` showing what the parser made of the app
+ * directory: the route tree with its groups, slots, shared-module grafts
+ * (and the `[-name]` overrides applied at each invocation), the intercept
+ * subtrees, the diagnostics of the last parse and the generated routes
+ * module. A URL box highlights the route objects that render a URL.
+ *
+ *   GET /__app-router              the page
+ *   GET /__app-router/api          tree, intercepts, diagnostics and code
+ *   GET /__app-router/match?url=   node ids matched by a URL
+ */
+
+import type { Connect } from "vite";
+import {
+    createRouteManifest,
+    matchManifestRoute,
+    matchRoutePattern,
+    type Diagnostic,
+    type ParallelSlot,
+    type RouteNode,
+    type parseAppRouter,
+} from "../commons/index.js";
+import * as path from "path";
+
+export const INSPECTOR_PATH = "/__app-router";
+
+export interface InspectorSnapshot {
+    rootDir: string;
+    appDir: string;
+    parsed: ReturnType<typeof parseAppRouter>;
+    /** Generated routes module. */
+    code: string;
+    /** Diagnostics reported while parsing and generating. */
+    diagnostics: Diagnostic[];
+    basename?: string;
+}
+
+interface InspectorNode {
+    id: string;
+    segment: string;
+    /** URL pattern (e.g. "/blog/:id"). */
+    path: string;
+    kind: "root" | "static" | "group" | "dynamic" | "catch-all" | "optional-catch-all" | "shared";
+    /** Convention file → path relative to the project root. */
+    files: Record<string, string>;
+    shared?: { name: string; active: string[]; omitted: string[] };
+    /** Source pattern, for nodes of an intercepting subtree. */
+    interceptSource?: string;
+    slots: InspectorSlot[];
+    children: InspectorNode[];
+}
+
+interface InspectorSlot {
+    id: string;
+    name: string;
+    files: Record<string, string>;
+    tree: InspectorNode[];
+}
+
+interface InspectorData {
+    appDir: string;
+    basename?: string;
+    root: InspectorNode;
+    intercepts: { source: string; target: string; tree: InspectorNode }[];
+    diagnostics: Diagnostic[];
+    code: string;
+}
+
+/** Convention file name → property holding its path on nodes and slots. */
+const CONVENTION_FILES = [
+    ["layout", "layoutPath"],
+    ["template", "templatePath"],
+    ["page", "pagePath"],
+    ["loading", "loadingPath"],
+    ["error", "errorPath"],
+    ["not-found", "notFoundPath"],
+    ["loader", "loaderPath"],
+    ["action", "actionPath"],
+    ["default", "defaultPath"],
+    ["props", "sharedPropsPath"],
+] as const;
+
+/** Anything carrying convention file paths: route nodes, slots, the app root. */
+type ConventionFileSource = Partial<Record<(typeof CONVENTION_FILES)[number][1], string>>;
+
+/**
+ * Turns the parsed app into JSON-friendly nodes with stable-per-parse ids.
+ */
+function describeApp(snapshot: InspectorSnapshot): InspectorData {
+    const { parsed, rootDir } = snapshot;
+    const toRelative = (filePath: string): string => path.relative(rootDir, filePath).replace(/\\/g, "/");
+    let nextId = 0;
+
+    const describeFiles = (source: ConventionFileSource): Record<string, string> => {
+        const files: Record<string, string> = {};
+        for (const [name, key] of CONVENTION_FILES) {
+            const file = source[key];
+            if (file) files[name] = toRelative(file);
+        }
+        return files;
+    };
+
+    const describeSlot = (slot: ParallelSlot): InspectorSlot => ({
+        id: `s${nextId++}`,
+        name: slot.name,
+        files: describeFiles(slot),
+        tree: slot.tree.filter((node) => !node.isSharedDef).map(describeNode),
+    });
+
+    function describeNode(node: RouteNode): InspectorNode {
+        const kind: InspectorNode["kind"] = node.sharedInvocation
+            ? "shared"
+            : node.isGroup
+                ? "group"
+                : node.isOptionalCatchAll
+                    ? "optional-catch-all"
+                    : node.isCatchAll
+                        ? "catch-all"
+                        : node.isDynamic
+                            ? "dynamic"
+                            : "static";
+        return {
+            id: `n${nextId++}`,
+            segment: node.segment,
+            path: node.path || "/",
+            kind,
+            files: describeFiles(node),
+            ...(node.sharedInvocation
+                ? {
+                    shared: {
+                        name: node.sharedInvocation.name,
+                        active: [...node.sharedInvocation.activeSubShareds],
+                        omitted: [...(node.sharedInvocation.omittedSubShareds ?? [])],
+                    },
+                }
+                : {}),
+            ...(node.isIntercepting && node.interceptSource !== undefined
+                ? { interceptSource: node.interceptSource || "/" }
+                : {}),
+            slots: (node.slots ?? []).map(describeSlot),
+            children: node.children.filter((child) => !child.isSharedDef).map(describeNode),
+        };
+    }
+
+    const root: InspectorNode = {
+        id: `n${nextId++}`,
+        segment: "",
+        path: "/",
+        kind: "root",
+        files: describeFiles({
+            layoutPath: parsed.rootLayout,
+            templatePath: parsed.rootTemplate,
+            pagePath: parsed.rootPage,
+            loadingPath: parsed.rootLoading,
+            errorPath: parsed.rootError,
+            notFoundPath: parsed.rootNotFound,
+            loaderPath: parsed.rootLoader,
+            actionPath: parsed.rootAction,
+        }),
+        slots: (parsed.rootSlots ?? []).map(describeSlot),
+        children: parsed.tree.filter((node) => !node.isSharedDef).map(describeNode),
+    };
+
+    return {
+        appDir: toRelative(snapshot.appDir),
+        ...(snapshot.basename ? { basename: snapshot.basename } : {}),
+        root,
+        intercepts: parsed.intercepts.map((ic) => ({
+            source: ic.sourcePattern,
+            target: ic.targetPattern,
+            tree: describeNode(ic.subtree),
+        })),
+        diagnostics: snapshot.diagnostics.map((diagnostic) => ({
+            ...diagnostic,
+            ...(diagnostic.file ? { file: toRelative(diagnostic.file) } : {}),
+        })),
+        code: snapshot.code,
+    };
+}
+
+/**
+ * Ids of `node` and its ancestors when a page below it (or `node` itself)
+ * satisfies `isTarget`; empty otherwise.
+ */
+function findBranch(node: InspectorNode, isTarget: (node: InspectorNode) => boolean): string[] {
+    if (isTarget(node)) return [node.id];
+    for (const child of node.children) {
+        const branch = findBranch(child, isTarget);
+        if (branch.length > 0) return [node.id, ...branch];
+    }
+    return [];
+}
+
+interface InspectorMatch {
+    pathname: string;
+    route?: { pattern: string; params: Record<string, string> };
+    /** Nodes (outermost first) and slots rendering the URL. */
+    matched: string[];
+    /** Intercepts that would render the URL as an overlay. */
+    intercepts: { source: string; matched: string[] }[];
+}
+
+function matchUrl(snapshot: InspectorSnapshot, data: InspectorData, url: string): InspectorMatch {
+    let pathname = new URL(url, "http://localhost").pathname;
+    const basename = snapshot.basename;
+    if (basename && basename !== "/" && (pathname === basename || pathname.startsWith(basename + "/"))) {
+        pathname = pathname.slice(basename.length) || "/";
+    }
+    const isPageFor = (node: InspectorNode): boolean =>
+        !!node.files.page && !!matchRoutePattern(node.path, pathname);
+
+    const match = matchManifestRoute(createRouteManifest(snapshot.parsed, snapshot.rootDir), pathname);
+    const matched = match
+        ? findBranch(data.root, (node) => node.files.page === match.route.page && node.path === match.route.pattern)
+        : [];
+
+    // Slots along the matched branch resolve the URL on their own; one
+    // without a matching page renders its default.
+    const byId = new Map<string, InspectorNode>();
+    const index = (node: InspectorNode): void => {
+        byId.set(node.id, node);
+        node.children.forEach(index);
+    };
+    index(data.root);
+    for (const id of [...matched]) {
+        for (const slot of byId.get(id)?.slots ?? []) {
+            matched.push(slot.id);
+            if (slot.files.page && matchRoutePattern(byId.get(id)!.path, pathname)) continue;
+            for (const node of slot.tree) {
+                const branch = findBranch(node, isPageFor);
+                if (branch.length > 0) {
+                    matched.push(...branch);
+                    break;
+                }
+            }
+        }
+    }
+
+    return {
+        pathname,
+        ...(match ? { route: { pattern: match.route.pattern, params: match.params } } : {}),
+        matched,
+        intercepts: data.intercepts
+            .map((ic) => ({ source: ic.source, matched: findBranch(ic.tree, isPageFor) }))
+            .filter((ic) => ic.matched.length > 0),
+    };
+}
+
+function sendJson(res: Parameters<Connect.NextHandleFunction>[1], body: unknown): void {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.setHeader("Cache-Control", "no-store");
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Middleware serving the inspector. `getSnapshot` parses the app on every
+ * request (the scan cache keeps that cheap) and returns undefined when there
+ * is no app directory.
+ */
+export function createInspectorMiddleware(
+    getSnapshot: () => InspectorSnapshot | undefined
+): Connect.NextHandleFunction {
+    return (req, res, next) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const route = url.pathname.replace(/\/$/, "");
+        if (req.method !== "GET" || !(route === INSPECTOR_PATH || route.startsWith(INSPECTOR_PATH + "/"))) {
+            return next();
+        }
+
+        if (route === INSPECTOR_PATH) {
+            res.statusCode = 200;
+            res.setHeader("Content-Type", "text/html; charset=utf-8");
+            res.end(INSPECTOR_HTML);
+            return;
+        }
+
+        const snapshot = getSnapshot();
+        if (!snapshot) {
+            res.statusCode = 404;
+            res.end("App directory not found");
+            return;
+        }
+        const data = describeApp(snapshot);
+        if (route === INSPECTOR_PATH + "/api") {
+            sendJson(res, data);
+        } else if (route === INSPECTOR_PATH + "/match") {
+            sendJson(res, matchUrl(snapshot, data, url.searchParams.get("url") || "/"));
+        } else {
+            next();
+        }
+    };
+}
+
+const INSPECTOR_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>App Router Inspector</title>
+<style>
+  :root { color-scheme: light dark; --muted: #888; --accent: #3b82f6; --match: rgba(59, 130, 246, .18); --warn: #d97706; --error: #dc2626; }
+  body { margin: 0; font: 14px/1.5 system-ui, sans-serif; }
+  header { position: sticky; top: 0; display: flex; gap: 12px; align-items: center; padding: 10px 16px; background: Canvas; border-bottom: 1px solid #8884; }
+  header h1 { font-size: 15px; margin: 0 12px 0 0; }
+  header input { flex: 1; max-width: 420px; padding: 4px 8px; font: inherit; }
+  header output { color: var(--muted); }
+  main { display: grid; grid-template-columns: minmax(0, 1fr) minmax(0, 1fr); gap: 16px; padding: 16px; }
+  section h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .05em; color: var(--muted); margin: 16px 0 6px; }
+  ul { list-style: none; margin: 0; padding-left: 18px; border-left: 1px dotted #8886; }
+  main > section > ul { padding-left: 0; border: 0; }
+  .node { padding: 1px 6px; border-radius: 4px; }
+  .node.match { background: var(--match); outline: 1px solid var(--accent); }
+  .seg { font-family: ui-monospace, monospace; font-weight: 600; }
+  .path, .files, .note { color: var(--muted); margin-left: 8px; }
+  .tag { font-size: 11px; padding: 0 5px; margin-left: 6px; border-radius: 3px; border: 1px solid currentColor; }
+  .tag.group { color: #8b5cf6; } .tag.shared { color: #059669; } .tag.slot { color: #db2777; } .tag.intercept { color: var(--warn); } .tag.omit { color: var(--error); }
+  .files span { margin-right: 6px; cursor: help; }
+  .diag { margin: 2px 0; } .diag.error { color: var(--error); } .diag.warning { color: var(--warn); }
+  pre { margin: 0; padding: 12px; overflow: auto; max-height: calc(100vh - 120px); background: #8881; border-radius: 6px; font-size: 12px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>App Router Inspector</h1>
+  <input id="url" placeholder="URL to match, e.g. /blog/42" autocomplete="off">
+  <output id="result"></output>
+  <button id="refresh">Refresh</button>
+</header>
+<main>
+  <section>
+    <h2>Routes</h2><ul id="tree"></ul>
+    <h2>Intercepts</h2><ul id="intercepts"></ul>
+    <h2>Diagnostics</h2><div id="diagnostics"></div>
+  </section>
+  <section>
+    <h2>Generated code</h2><pre id="code"></pre>
+  </section>
+</main>
+<script type="module">
+const base = location.pathname.replace(/\\/$/, "");
+const $ = (id) => document.getElementById(id);
+const el = (tag, className, text) => {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+function renderFiles(files) {
+  const span = el("span", "files");
+  for (const [name, file] of Object.entries(files)) {
+    const item = el("span", "", name);
+    item.title = file;
+    span.append(item);
+  }
+  return span;
+}
+
+function renderNode(node) {
+  const li = el("li");
+  const row = el("div", "node");
+  row.dataset.id = node.id;
+  row.append(el("span", "seg", node.kind === "root" ? "(root)" : node.segment));
+  if (node.kind === "group") row.append(el("span", "tag group", "group"));
+  if (node.shared) {
+    row.append(el("span", "tag shared", "+" + node.shared.name));
+    if (node.shared.active.length) row.append(el("span", "note", "active: " + node.shared.active.join(", ")));
+    for (const name of node.shared.omitted) row.append(el("span", "tag omit", "omitted " + name));
+  }
+  if (node.interceptSource) row.append(el("span", "tag intercept", "from " + node.interceptSource));
+  if (node.kind !== "group") row.append(el("span", "path", node.path));
+  row.append(renderFiles(node.files));
+  li.append(row);
+  const children = el("ul");
+  for (const slot of node.slots) {
+    const slotLi = el("li");
+    const slotRow = el("div", "node");
+    slotRow.dataset.id = slot.id;
+    slotRow.append(el("span", "seg", "@" + slot.name), el("span", "tag slot", "slot"), renderFiles(slot.files));
+    const slotTree = el("ul");
+    slot.tree.forEach((child) => slotTree.append(renderNode(child)));
+    slotLi.append(slotRow, slotTree);
+    children.append(slotLi);
+  }
+  node.children.forEach((child) => children.append(renderNode(child)));
+  if (children.childElementCount) li.append(children);
+  return li;
+}
+
+async function load() {
+  const data = await (await fetch(base + "/api")).json();
+  $("tree").replaceChildren(renderNode(data.root));
+  $("intercepts").replaceChildren(...data.intercepts.map((ic) => {
+    const li = el("li");
+    li.append(el("div", "note", ic.source + " → " + ic.target), el("ul"));
+    li.lastChild.append(renderNode(ic.tree));
+    return li;
+  }));
+  if (!data.intercepts.length) $("intercepts").append(el("li", "note", "none"));
+  $("diagnostics").replaceChildren(...data.diagnostics.map((d) =>
+    el("div", "diag " + d.severity, d.severity + " [" + d.code + "] " + (d.file ? d.file + ": " : "") + d.message)));
+  if (!data.diagnostics.length) $("diagnostics").append(el("div", "note", "No problems found."));
+  $("code").textContent = data.code;
+  await match();
+}
+
+async function match() {
+  const url = $("url").value.trim();
+  document.querySelectorAll(".node.match").forEach((node) => node.classList.remove("match"));
+  if (!url) { $("result").textContent = ""; return; }
+  const result = await (await fetch(base + "/match?url=" + encodeURIComponent(url))).json();
+  const ids = [...result.matched, ...result.intercepts.flatMap((ic) => ic.matched)];
+  for (const id of ids) document.querySelector('[data-id="' + id + '"]')?.classList.add("match");
+  const params = result.route && Object.entries(result.route.params).map(([k, v]) => k + "=" + v).join(", ");
+  $("result").textContent = result.route
+    ? result.route.pattern + (params ? " (" + params + ")" : "") +
+      (result.intercepts.length ? " · intercepted from " + result.intercepts.map((ic) => ic.source).join(", ") : "")
+    : "no match (not-found)";
+  history.replaceState(null, "", "?url=" + encodeURIComponent(url));
+}
+
+$("url").value = new URLSearchParams(location.search).get("url") ?? "";
+$("url").addEventListener("input", match);
+$("refresh").addEventListener("click", load);
+addEventListener("focus", load);
+load();
+</script>
+</body>
+</html>
+`;
@@ -5,9 +5,9 @@
 /// <reference types="react" />
 
 declare module 'virtual:app-router' {
-    import type { FC } from 'react';
+    import type { FC, ReactNode } from 'react';
     import type { RouteObject, createBrowserRouter } from 'react-router-dom';
-    import type { TemplateLinkFn } from 'vite-plugin-react-app-router/runtime';
+    import type { TemplateLinkFn, PrefetchLinkProps } from 'vite-plugin-react-app-router/runtime';
 
     /**
      * Main router component
@@ -16,7 +16,20 @@ declare module 'virtual:app-router' {
     export const AppRouter: FC;
 
     /**
-     * Router instance created with createBrowserRouter.
+     * Mounts `children` (default: <AppRouter />) into `container`. Hydrates
+     * the existing markup when the page was prerendered at build time (the
+     * container carries `data-prerendered`), otherwise renders from scratch.
+     * Returns the React root. Only exported with the `prerender` option in
+     * the 'browser' router mode.
+     */
+    export function createAppRoot(
+        container: Element,
+        children?: ReactNode
+    ): { render(children: ReactNode): void; unmount(): void };
+
+    /**
+     * Router instance created with createBrowserRouter (createHashRouter /
+     * createMemoryRouter with the `routerMode` option).
      * `null` in intercept mode — that build path uses <BrowserRouter> +
      * useRoutes() instead of the data router, so no instance exists.
      */
@@ -35,6 +48,69 @@ declare module 'virtual:app-router' {
      */
     export const useTemplateLink: () => TemplateLinkFn;
 
+    /**
+     * `<Link>` that starts downloading the layouts, page and loading
+     * components of its target route on hover, focus or touch start
+     * (`prefetch="render"` starts on mount, `prefetch="none"` never):
+     *   <PrefetchLink to="/blog">Blog</PrefetchLink>
+     */
+    export const PrefetchLink: FC<PrefetchLinkProps>;
+
+    /**
+     * Preloads the lazy components of every route matching an app path
+     * (without the basename). Resolves once the code is downloaded:
+     *   preloadRoute('/blog/42');
+     */
+    export function preloadRoute(pathname: string): Promise<void>;
+
+    /**
+     * Registry of every route pattern and its params. Empty by default;
+     * augmented by the declaration file written when the `dts` plugin option
+     * is enabled:
+     *   '/blog/:id': { params: { id: string }; path: `/blog/${string}` }
+     */
+    export interface RouteRegistry {}
+
+    type RegisteredPattern = keyof RouteRegistry & string;
+
+    /** Route patterns known to the app (`string` until types are generated). */
+    export type RoutePattern = [RegisteredPattern] extends [never] ? string : RegisteredPattern;
+
+    /** Params of a route pattern as returned by `useRouteParams()`. */
+    export type RouteParams<P extends RoutePattern = RoutePattern> =
+        P extends RegisteredPattern
+            ? RouteRegistry[P] extends { params: infer T } ? T : never
+            : Readonly<Record<string, string | undefined>>;
+
+    /** Every concrete URL accepted by a route (`string` until types are generated). */
+    export type RoutePath = [RegisteredPattern] extends [never]
+        ? string
+        : RouteRegistry[RegisteredPattern] extends { path: infer T } ? T : never;
+
+    /** Values accepted by `routePath()` — catch-all splats also take arrays. */
+    export type RouteParamsInput<P extends RoutePattern> = {
+        [K in keyof RouteParams<P>]: string | number | ReadonlyArray<string | number>;
+    };
+
+    /**
+     * Builds a URL from a route pattern, checking the pattern and its params
+     * against the generated route declarations:
+     *   <Link to={routePath('/blog/:id', { id })}>...</Link>
+     * The `to` of `Link` and `navigate()` is not checked by itself.
+     */
+    export function routePath<P extends RoutePattern>(
+        pattern: P,
+        ...params: {} extends RouteParams<P>
+            ? [params?: RouteParamsInput<P>]
+            : [params: RouteParamsInput<P>]
+    ): RoutePath;
+
+    /**
+     * `useParams()` typed against a route pattern:
+     *   const { id } = useRouteParams('/blog/:id');
+     */
+    export function useRouteParams<P extends RoutePattern>(pattern?: P): RouteParams<P>;
+
     // Runtime hooks re-exported from `vite-plugin-react-app-router/runtime`
     // so consumers can pull them from the virtual module alongside AppRouter.
     export {
@@ -42,6 +118,16 @@ declare module 'virtual:app-router' {
         useSharedModule,
         useSharedSlot,
         useSharedProps,
+        useSegmentData,
+        useMetadata,
+    } from 'vite-plugin-react-app-router/runtime';
+    export type {
+        SegmentData,
+        Metadata,
+        ResolvedMetadata,
+        MetadataProps,
+        PrefetchBehavior,
+        PrefetchLinkProps,
     } from 'vite-plugin-react-app-router/runtime';
 
     const _default: FC;
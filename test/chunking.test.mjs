@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRouteManualChunks } from '../dist/build/chunking.js';
+
+const appDir = '/app/src/app';
+
+/** Module graph from `id → static imports`; `entries` and `lazy` mark roots. */
+function createGraph(imports, { entries = [], lazy = [] } = {}) {
+    return {
+        getModuleIds: () => Object.keys(imports)[Symbol.iterator](),
+        getModuleInfo: (id) =>
+            id in imports
+                ? {
+                      isEntry: entries.includes(id),
+                      importedIds: imports[id],
+                      dynamicImporters: lazy.includes(id) ? ['/app/src/lazy-importer.js'] : [],
+                  }
+                : null,
+    };
+}
+
+function chunksOf(graph, ids) {
+    const chunks = createRouteManualChunks(() => appDir, 'per-segment');
+    chunks.analyze(graph);
+    return Object.fromEntries(ids.map((id) => [id, chunks.manualChunks(id, graph) ?? null]));
+}
+
+test('splits shared dependencies by the set of route chunks using them', () => {
+    const graph = createGraph(
+        {
+            '/app/src/main.js': ['/app/src/entry-dep.js'],
+            '/app/src/entry-dep.js': [],
+            [`${appDir}/a/page.js`]: ['/app/src/ab.js', '/app/src/all.js', '/app/src/only-a.js'],
+            [`${appDir}/b/page.js`]: ['/app/src/ab.js', '/app/src/all.js', '/app/src/entry-dep.js'],
+            [`${appDir}/c/page.js`]: ['/app/src/all.js'],
+            '/app/src/ab.js': ['/app/src/ab-dep.js'],
+            '/app/src/ab-dep.js': [],
+            '/app/src/all.js': [],
+            '/app/src/only-a.js': [],
+        },
+        { entries: ['/app/src/main.js'] }
+    );
+    assert.deepEqual(
+        chunksOf(graph, [
+            `${appDir}/a/page.js`,
+            '/app/src/only-a.js',
+            '/app/src/ab.js',
+            '/app/src/ab-dep.js',
+            '/app/src/all.js',
+            '/app/src/entry-dep.js',
+            '/app/src/main.js',
+        ]),
+        {
+            [`${appDir}/a/page.js`]: 'route-A',
+            '/app/src/only-a.js': 'route-A',
+            '/app/src/ab.js': 'app-shared~route-A~route-B',
+            '/app/src/ab-dep.js': 'app-shared~route-A~route-B',
+            '/app/src/all.js': 'app-shared~route-A~route-B~route-C',
+            '/app/src/entry-dep.js': 'app-shared',
+            '/app/src/main.js': null,
+        }
+    );
+});
+
+test('route files stop the walk and lazily imported modules count as their own chunk', () => {
+    const graph = createGraph(
+        {
+            [`${appDir}/a/page.js`]: [`${appDir}/b/page.js`, '/app/src/lazy.js'],
+            [`${appDir}/b/page.js`]: ['/app/src/only-b.js'],
+            '/app/src/only-b.js': [],
+            '/app/src/lazy.js': ['/app/src/lazy-dep.js'],
+            '/app/src/lazy-dep.js': [],
+        },
+        { lazy: ['/app/src/lazy.js'] }
+    );
+    const chunks = chunksOf(graph, ['/app/src/only-b.js', '/app/src/lazy-dep.js']);
+    assert.equal(chunks['/app/src/only-b.js'], 'route-B');
+    assert.match(chunks['/app/src/lazy-dep.js'], /^app-shared~[0-9a-f]{8}$/);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { checkConventionFiles, collectDiagnostics } from '../dist/commons/index.js';
+
+/** Diagnostics of a route folder holding `files`, keyed by file name. */
+function check(files) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'convention-files-'));
+    try {
+        for (const file of files) fs.writeFileSync(path.join(dir, file), 'export default function C() { return null }\n');
+        const { diagnostics } = collectDiagnostics(() => checkConventionFiles(dir, 'route', ['.tsx', '.ts']));
+        return new Map(diagnostics.map((d) => [path.basename(d.file), d]));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+test('ordinary component names next to a route are not flagged', () => {
+    const components = [
+        'Header.tsx', 'header.tsx', 'Heading.tsx', 'heading.tsx', 'Section.tsx', 'section.tsx',
+        'Loader.tsx', 'Loading.tsx', 'Error.tsx', 'Action.tsx', 'Button.tsx', 'Footer.tsx',
+        'Sidebar.tsx', 'Modal.tsx', 'Spinner.tsx', 'Pager.tsx', 'Pages.tsx', 'Layouts.tsx',
+        'actions.ts', 'loaders.ts', 'errors.ts', 'defaults.ts', 'Item.tsx', 'Table.tsx',
+        'Avatar.tsx', 'Badge.tsx', 'Props.tsx', 'hooks.ts', 'utils.ts', 'types.ts',
+    ];
+    const diagnostics = check(['page.tsx', ...components]);
+    assert.deepEqual([...diagnostics.keys()], []);
+});
+
+test('misspelled convention files are flagged with a suggestion', () => {
+    const diagnostics = check(['Page.tsx', 'layot.tsx', 'not_found.tsx', 'lodaing.tsx', 'NotFound.tsx']);
+    assert.match(diagnostics.get('Page.tsx').message, /did you mean page\.tsx/);
+    assert.match(diagnostics.get('layot.tsx').message, /did you mean layout\.tsx/);
+    assert.match(diagnostics.get('not_found.tsx').message, /did you mean not-found\.tsx/);
+    assert.match(diagnostics.get('lodaing.tsx').message, /did you mean loading\.tsx/);
+    assert.match(diagnostics.get('NotFound.tsx').message, /did you mean not-found\.tsx/);
+});
+
+test('convention files outside the extensions option are flagged', () => {
+    const diagnostics = check(['page.tsx', 'loading.jsx']);
+    assert.equal(diagnostics.get('loading.jsx').code, 'unrecognized-convention-file');
+});
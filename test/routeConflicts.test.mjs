@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { collectDiagnostics, findRouteConflicts, parseAppRouter } from '../dist/commons/index.js';
+
+/**
+ * Parses an app directory holding `files`, returning its conflicts as
+ * `url [slot]: pages` lines and the diagnostics of the parse.
+ */
+function parse(files) {
+    const appDir = fs.mkdtempSync(path.join(os.tmpdir(), 'route-conflicts-'));
+    try {
+        for (const file of files) {
+            fs.mkdirSync(path.dirname(path.join(appDir, file)), { recursive: true });
+            fs.writeFileSync(path.join(appDir, file), 'export default function C() { return null }\n');
+        }
+        const { result, diagnostics } = collectDiagnostics(() => parseAppRouter({ appDir }, undefined, appDir));
+        const conflicts = findRouteConflicts(result.tree, result.rootPage, result.rootSlots).map((conflict) => {
+            const pages = conflict.claims.map((claim) => path.relative(appDir, claim.pagePath)).sort();
+            return `${conflict.url}${conflict.slot ? ` ${conflict.slot}` : ''}: ${pages.join(', ')}`;
+        });
+        return { conflicts, diagnostics };
+    } finally {
+        fs.rmSync(appDir, { recursive: true, force: true });
+    }
+}
+
+test('group siblings conflict only on the URLs they both define', () => {
+    const { conflicts } = parse(['(a)/about/page.tsx', '(b)/about/page.tsx', '(a)/x/page.tsx', '(b)/y/page.tsx']);
+    assert.deepEqual(conflicts, ['/about: (a)/about/page.tsx, (b)/about/page.tsx']);
+});
+
+test('dynamic segments and catch-alls at one level conflict whatever their names', () => {
+    const { conflicts } = parse([
+        'blog/[id]/page.tsx', 'blog/[slug]/page.tsx', 'blog/new/page.tsx',
+        'shop/[...a]/page.tsx', 'shop/[...b]/page.tsx',
+    ]);
+    assert.deepEqual(conflicts, [
+        '/blog/:param: blog/[id]/page.tsx, blog/[slug]/page.tsx',
+        '/shop/*: shop/[...a]/page.tsx, shop/[...b]/page.tsx',
+    ]);
+});
+
+test('an optional catch-all claims the URL of its parent', () => {
+    assert.deepEqual(parse(['docs/page.tsx', 'docs/[[...slug]]/page.tsx']).conflicts, [
+        '/docs: docs/[[...slug]]/page.tsx, docs/page.tsx',
+    ]);
+    assert.deepEqual(parse(['docs/[[...slug]]/page.tsx', 'docs/intro/page.tsx']).conflicts, []);
+});
+
+test('claims are compared case-insensitively', () => {
+    assert.deepEqual(parse(['About/page.tsx', 'about/page.tsx']).conflicts, [
+        '/about: About/page.tsx, about/page.tsx',
+    ]);
+});
+
+test('slots are checked on their own, not against the main tree', () => {
+    const { conflicts } = parse([
+        'layout.tsx', 'page.tsx', 'x/page.tsx',
+        '@modal/default.tsx', '@modal/(a)/x/page.tsx', '@modal/(b)/x/page.tsx',
+    ]);
+    assert.deepEqual(conflicts, ['/x @modal: @modal/(a)/x/page.tsx, @modal/(b)/x/page.tsx']);
+});
+
+test('shared-module invocations conflict with the pages they land on', () => {
+    const bracket = parse(['(s)/+card/page.tsx', 'a/[+card]/layout.tsx', 'a/card/page.tsx']);
+    assert.deepEqual(bracket.conflicts, ['/a/card: (s)/+card/page.tsx, a/card/page.tsx']);
+
+    // A `(+name)` invocation adds no segment, so its page lands on the URL of
+    // a sibling page.tsx.
+    const paren = parse(['(s)/+card/page.tsx', 'a/(+card)/layout.tsx', 'a/page.tsx']);
+    assert.deepEqual(paren.conflicts, ['/a: (s)/+card/page.tsx, a/page.tsx']);
+    const [diagnostic] = paren.diagnostics;
+    assert.equal(paren.diagnostics.length, 1);
+    assert.equal(diagnostic.code, 'route-conflict');
+    assert.equal(diagnostic.severity, 'warning');
+    assert.match(diagnostic.message, /URL "\/a" is claimed by 2 pages: .*\(s\)\/\+card\/page\.tsx \(\/a via \+card\)/);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+    collectDiagnostics,
+    createRouteManifest,
+    matchManifestRoute,
+    matchRoutePattern,
+    parseAppRouter,
+} from '../dist/commons/index.js';
+
+const files = [
+    'page.tsx',
+    'layout.tsx',
+    'not-found.tsx',
+    '(marketing)/about/page.tsx',
+    'blog/layout.tsx',
+    'blog/loader.ts',
+    'blog/new/page.tsx',
+    'blog/[id]/page.tsx',
+    'blog/[id]/action.ts',
+    'blog/[...rest]/page.tsx',
+    'docs/intro/page.tsx',
+    'docs/[[...slug]]/page.tsx',
+];
+
+/** Manifest of an app directory holding `files`, relative to its parent. */
+function createManifest() {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'route-manifest-'));
+    const appDir = path.join(root, 'app');
+    try {
+        for (const file of files) {
+            fs.mkdirSync(path.dirname(path.join(appDir, file)), { recursive: true });
+            fs.writeFileSync(path.join(appDir, file), 'export default function C() { return null }\n');
+        }
+        const { result, diagnostics } = collectDiagnostics(() => parseAppRouter({ appDir }, undefined, root));
+        assert.deepEqual(diagnostics, []);
+        return createRouteManifest(result, root);
+    } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+    }
+}
+
+const manifest = createManifest();
+
+function matchedPattern(pathname) {
+    const match = matchManifestRoute(manifest, pathname);
+    return match && [match.route.pattern, match.params];
+}
+
+test('matches patterns like react-router', () => {
+    assert.deepEqual(matchRoutePattern('/blog/:id', '/Blog/a%20b'), { id: 'a b' });
+    assert.deepEqual(matchRoutePattern('/docs/*', '/docs/guides/intro'), { '*': 'guides/intro' });
+    assert.deepEqual(matchRoutePattern('/docs/*', '/docs'), { '*': '' });
+    assert.deepEqual(matchRoutePattern('/', '/'), {});
+    assert.equal(matchRoutePattern('/blog/:id', '/blog'), undefined);
+    assert.equal(matchRoutePattern('/blog/:id', '/blog/1/edit'), undefined);
+    assert.equal(matchRoutePattern('/blog/new', '/blog/old'), undefined);
+});
+
+test('describes the files of every route with paths relative to the root', () => {
+    const byPattern = new Map(manifest.routes.map((route) => [route.pattern, route]));
+    assert.deepEqual([...byPattern.keys()].sort(), [
+        '/', '/about', '/blog/*', '/blog/:id', '/blog/new', '/docs/*', '/docs/intro',
+    ]);
+    assert.equal(manifest.notFound, 'app/not-found.tsx');
+
+    const post = byPattern.get('/blog/:id');
+    assert.equal(post.page, 'app/blog/[id]/page.tsx');
+    assert.deepEqual(post.layouts, ['app/layout.tsx', 'app/blog/layout.tsx']);
+    assert.deepEqual(post.loaders, ['app/blog/loader.ts']);
+    assert.equal(post.action, 'app/blog/[id]/action.ts');
+    assert.equal(byPattern.get('/blog/new').action, undefined);
+
+    // Groups add no segment and no layout of their own.
+    assert.deepEqual(byPattern.get('/about').layouts, ['app/layout.tsx']);
+});
+
+test('static segments beat params, which beat catch-alls', () => {
+    assert.deepEqual(matchedPattern('/blog/new'), ['/blog/new', {}]);
+    assert.deepEqual(matchedPattern('/blog/42'), ['/blog/:id', { id: '42' }]);
+    assert.deepEqual(matchedPattern('/blog/42/edit'), ['/blog/*', { '*': '42/edit' }]);
+    assert.deepEqual(matchedPattern('/'), ['/', {}]);
+    // As in react-router, a `*` route also takes the URL of its parent.
+    assert.deepEqual(matchedPattern('/blog'), ['/blog/*', { '*': '' }]);
+    assert.equal(matchedPattern('/missing'), undefined);
+});
+
+test('optional catch-alls match their parent URL and lose to static siblings', () => {
+    assert.deepEqual(matchedPattern('/docs'), ['/docs/*', { '*': '' }]);
+    assert.deepEqual(matchedPattern('/docs/intro'), ['/docs/intro', {}]);
+    assert.deepEqual(matchedPattern('/docs/intro/more'), ['/docs/*', { '*': 'intro/more' }]);
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+    checkRouteModuleExports,
+    collectDiagnostics,
+    getLiteralExport,
+    getModuleExports,
+    hasMetadataExport,
+    haveModuleExportsChanged,
+} from '../dist/commons/index.js';
+
+function withModule(fileName, source, fn) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'route-module-'));
+    try {
+        const file = path.join(dir, fileName);
+        fs.writeFileSync(file, source);
+        return fn(file);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+function codes(file, kind) {
+    return collectDiagnostics(() => checkRouteModuleExports(file, kind)).diagnostics.map((d) => d.code);
+}
+
+test('reads named exports and literal values', () => {
+    const source = [
+        'export const metadata = { title: "x" };',
+        'export const changefreq = "weekly" as const;',
+        'export const priority = 0.8;',
+        'export async function generateStaticParams() { return []; }',
+        'export type Props = { id: string };',
+        'const helper = 1;',
+        'export { helper as formatDate };',
+        '// export const dynamicParams = false;',
+        'export default function Page() { return null; }',
+    ].join('\n');
+    withModule('page.tsx', source, (file) => {
+        assert.deepEqual(
+            [...getModuleExports(file)].sort(),
+            ['changefreq', 'formatDate', 'generateStaticParams', 'metadata', 'priority']
+        );
+        assert.equal(hasMetadataExport(file), true);
+        assert.equal(getLiteralExport(file, 'changefreq'), 'weekly');
+        assert.equal(getLiteralExport(file, 'priority'), 0.8);
+        assert.equal(getLiteralExport(file, 'metadata'), undefined);
+    });
+});
+
+test('helper exports are not reported, config-like ones are', () => {
+    const source = [
+        'export const formatDate = (d: Date) => d.toISOString();',
+        'export const columns = ["a"];',
+        'export function generateMetaData() { return {}; }',
+        'export const revalidate = 60;',
+        'export default function Page() { return null; }',
+    ].join('\n');
+    withModule('page.tsx', source, (file) => {
+        const { diagnostics } = collectDiagnostics(() => checkRouteModuleExports(file, 'page'));
+        assert.deepEqual(diagnostics.map((d) => d.code), ['unknown-route-export']);
+        assert.match(diagnostics[0].message, /"generateMetaData", "revalidate"/);
+        assert.doesNotMatch(diagnostics[0].message, /formatDate|columns|\//);
+    });
+});
+
+test('missing and non-component default exports are reported', () => {
+    withModule('layout.tsx', 'export function Layout() { return null; }\n', (file) => {
+        assert.deepEqual(codes(file, 'layout'), ['missing-default-export']);
+    });
+    withModule('error.tsx', 'export default { title: "x" };\n', (file) => {
+        assert.deepEqual(codes(file, 'error'), ['invalid-default-export']);
+    });
+    withModule('page.tsx', 'import { memo } from "react";\nfunction P() { return null; }\nexport default memo(P);\n', (file) => {
+        assert.deepEqual(codes(file, 'page'), []);
+    });
+});
+
+test('only export changes count as changed exports', () => {
+    withModule('page.tsx', 'export default function Page() { return <p>a</p>; }\n', (file) => {
+        assert.equal(haveModuleExportsChanged(file), true);
+        const edit = (source, seconds) => {
+            fs.writeFileSync(file, source);
+            const time = new Date(Date.now() + seconds * 1000);
+            fs.utimesSync(file, time, time);
+        };
+        edit('export default function Page() { return <p>b</p>; }\n', 1);
+        assert.equal(haveModuleExportsChanged(file), false);
+        edit('export const metadata = {};\nexport default function Page() { return <p>b</p>; }\n', 2);
+        assert.equal(haveModuleExportsChanged(file), true);
+        edit('export const metadata = {};\nexport default function Page() { return <p>b</p>\n', 3);
+        assert.equal(haveModuleExportsChanged(file), true);
+    });
+});
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import {
+    collectDiagnostics,
+    generateBuildRoutesCode,
+    generateRoutesFile,
+    parseAppRouter,
+} from '../dist/commons/index.js';
+
+const repoDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const files = {
+    'layout.tsx': 'import { Outlet } from "react-router-dom";\nexport default function Layout() { return <Outlet />; }\n',
+    'page.tsx': 'export default function Page() { return null; }\n',
+    'loading.tsx': 'export default function Loading() { return null; }\n',
+    'not-found.tsx': 'export default function NotFound() { return null; }\n',
+    'blog/[id]/page.tsx': 'export default function Post() { return null; }\n',
+    'blog/[id]/loader.ts': 'export default function loader() { return null; }\n',
+    'docs/[[...slug]]/page.tsx': 'export default function Docs() { return null; }\n',
+};
+
+/** Routes file content generated from a project at `rootDir`, written to `fileName`. */
+function writeRoutesFile(rootDir, fileName, prerender) {
+    const appDir = path.join(rootDir, 'src/app');
+    const parsed = parseAppRouter({ appDir }, undefined, rootDir);
+    const code = collectDiagnostics(() =>
+        generateBuildRoutesCode(parsed.routes, {
+            rootDir,
+            lazy: true,
+            tree: parsed.tree,
+            intercepts: parsed.intercepts,
+            rootLayout: parsed.rootLayout,
+            rootPage: parsed.rootPage,
+            rootLoading: parsed.rootLoading,
+            rootNotFound: parsed.rootNotFound,
+            rootSlots: parsed.rootSlots,
+            prerender,
+        })
+    ).result;
+    const filePath = path.join(rootDir, '.app-router', fileName);
+    const content = generateRoutesFile(code, filePath, rootDir);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return { filePath, content };
+}
+
+/** Type errors of `fileNames`, resolving packages from this repository. */
+function typeCheck(fileNames, rootDir) {
+    const program = ts.createProgram(fileNames, {
+        noEmit: true,
+        strict: true,
+        noUnusedLocals: true,
+        noUncheckedIndexedAccess: true,
+        skipLibCheck: true,
+        jsx: ts.JsxEmit.ReactJSX,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+        types: [],
+        paths: {
+            'vite-plugin-react-app-router/runtime': [path.join(repoDir, 'dist/runtime.d.ts')],
+            '*': [path.join(repoDir, 'node_modules/@types/*'), path.join(repoDir, 'node_modules/*')],
+        },
+    });
+    return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        return diagnostic.file ? `${path.relative(rootDir, diagnostic.file.fileName)}: ${message}` : message;
+    });
+}
+
+test('routes files import the pages relative to themselves and type-check', () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'routes-file-'));
+    try {
+        for (const [file, source] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(rootDir, 'src/app', file)), { recursive: true });
+            fs.writeFileSync(path.join(rootDir, 'src/app', file), source);
+        }
+        const routes = writeRoutesFile(rootDir, 'routes.gen.tsx', false);
+        const prerendered = writeRoutesFile(rootDir, 'routes.prerender.gen.tsx', true);
+
+        const specifiers = [...routes.content.matchAll(/(?:from |import\()"([^"]+)"/g)].map((match) => match[1]);
+        assert.ok(specifiers.includes('../src/app/page'));
+        assert.ok(specifiers.includes('../src/app/blog/[id]/loader'));
+        assert.ok(specifiers.includes('../src/app/docs/[[...slug]]/page'));
+        assert.deepEqual(specifiers.filter((specifier) => specifier.startsWith('/')), []);
+        assert.match(routes.content, /const routes: AppRouteObject\[\] = /);
+        assert.doesNotMatch(routes.content, /createAppRoot/);
+        // Not type-checked: this repository has no react-dom types.
+        assert.match(prerendered.content, /export function createAppRoot\(container: Element, children: ReactNode/);
+
+        assert.deepEqual(typeCheck([routes.filePath], rootDir), []);
+    } finally {
+        fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+});
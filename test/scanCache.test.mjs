@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+    collectDiagnostics,
+    createRouteScanCache,
+    invalidateRouteScanCache,
+    parseAppRouter,
+} from '../dist/commons/index.js';
+
+const page = 'export default function Page() { return null }\n';
+
+/** App directory holding `files` (relative paths), removed after `fn`. */
+function withApp(files, fn) {
+    const appDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-cache-'));
+    const write = (file) => {
+        fs.mkdirSync(path.dirname(path.join(appDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(appDir, file), page);
+    };
+    try {
+        files.forEach(write);
+        return fn({ appDir, write, file: (file) => path.join(appDir, file) });
+    } finally {
+        fs.rmSync(appDir, { recursive: true, force: true });
+    }
+}
+
+/** Parses `appDir` with `cache`, returning the patterns and diagnostic codes by file. */
+function parse(appDir, cache) {
+    const { result, diagnostics } = collectDiagnostics(() => parseAppRouter({ appDir }, cache, appDir));
+    return {
+        result,
+        patterns: result.routes.map((route) => route.pattern).sort(),
+        diagnostics: diagnostics.map((d) => `${d.code} ${path.basename(d.file ?? '')}`).sort(),
+    };
+}
+
+test('a file event re-reads only the touched directory', () => {
+    withApp(['page.tsx', 'blog/page.tsx', 'docs/page.tsx'], ({ appDir, write, file }) => {
+        const cache = createRouteScanCache();
+        assert.deepEqual(parse(appDir, cache).patterns, ['/', '/blog', '/docs']);
+
+        write('blog/[id]/page.tsx');
+        // Without an event the cached listing still hides the new folder.
+        assert.deepEqual(parse(appDir, cache).patterns, ['/', '/blog', '/docs']);
+
+        invalidateRouteScanCache(cache, file('blog/[id]'), 'dir');
+        const scanned = [...cache.scans.values()].map((scan) => path.relative(appDir, scan.dirPath));
+        assert.ok(scanned.includes('docs'));
+        assert.ok(!scanned.includes('') && !scanned.includes('blog'));
+        assert.deepEqual(parse(appDir, cache).patterns, ['/', '/blog', '/blog/:id', '/docs']);
+    });
+});
+
+test('a change inside a +name definition re-scans the folders invoking it', () => {
+    withApp(['(shared)/+card/page.tsx', 'a/[+card]/layout.tsx', 'b/page.tsx'], ({ appDir, write, file }) => {
+        const cache = createRouteScanCache();
+        assert.deepEqual(parse(appDir, cache).patterns, ['/a/card', '/b']);
+
+        write('(shared)/+card/[id]/page.tsx');
+        invalidateRouteScanCache(cache, file('(shared)/+card/[id]'), 'dir');
+        const scanned = [...cache.scans.values()].map((scan) => path.relative(appDir, scan.dirPath));
+        assert.ok(scanned.includes('b') && !scanned.includes('a'));
+        assert.deepEqual(parse(appDir, cache).patterns, ['/a/card', '/a/card/:id', '/b']);
+    });
+});
+
+test('cached scans report their diagnostics again', () => {
+    withApp(['page.tsx', 'blog/Page.tsx'], ({ appDir, file }) => {
+        const cache = createRouteScanCache();
+        const first = parse(appDir, cache);
+        assert.deepEqual(first.diagnostics, ['unrecognized-convention-file Page.tsx']);
+        // The warning comes from the memoized scan of `blog/`.
+        assert.ok([...cache.scans.values()].some((scan) => scan.dirPath === file('blog')));
+        assert.deepEqual(parse(appDir, cache).diagnostics, first.diagnostics);
+
+        fs.renameSync(file('blog/Page.tsx'), file('blog/page.tsx'));
+        invalidateRouteScanCache(cache, file('blog/Page.tsx'), 'file');
+        invalidateRouteScanCache(cache, file('blog/page.tsx'), 'file');
+        const fixed = parse(appDir, cache);
+        assert.deepEqual(fixed.diagnostics, []);
+        assert.deepEqual(fixed.patterns, ['/', '/blog']);
+    });
+});